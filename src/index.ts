@@ -1 +1,27 @@
+export * from './lib/pass-types';
+export * from './lib/google-wallet-pass';
+export * from './lib/google-wallet-pass-bundle';
 export * from './lib/google-generic-pass';
+export * from './lib/google-event-ticket-pass';
+export * from './lib/google-loyalty-pass';
+export * from './lib/google-gift-card-pass';
+export * from './lib/google-flight-pass';
+export * from './lib/google-transit-pass';
+export * from './lib/enums';
+export * from './lib/google-wallet-client';
+export * from './lib/credentials';
+export * from './lib/save-link';
+export * from './lib/save-jwt';
+export * from './lib/signer';
+export * from './lib/pass-callback';
+export * from './lib/barcode-renderer';
+export * from './lib/rotating-barcode';
+export * from './lib/class-template';
+export * from './lib/field-paths';
+export * from './lib/pass-preview';
+export * from './lib/pass-spec';
+export * from './lib/pass-merge';
+export * from './lib/bulk-issuance';
+export * from './lib/pass-lifecycle';
+export * from './lib/localization';
+export * from './lib/validation';
@@ -0,0 +1,84 @@
+import {
+  RENDERABLE_BARCODE_TYPES,
+  renderBarcodePng,
+  renderBarcodeSvg,
+} from '../barcode-renderer';
+import { GoogleGenericPass } from '../google-generic-pass';
+import { BarcodeObject } from '../pass-types';
+
+describe('barcode renderer', () => {
+  const samples: BarcodeObject[] = [
+    { type: 'QR_CODE', value: 'MEMBER-1' },
+    { type: 'AZTEC', value: 'MEMBER-1' },
+    { type: 'PDF_417', value: 'MEMBER-1' },
+    { type: 'CODE_128', value: 'MEMBER-1' },
+    { type: 'CODE_39', value: 'MEMBER-1' },
+    { type: 'EAN_13', value: '5901234123457' },
+    { type: 'UPC_A', value: '036000291452' },
+    { type: 'DATA_MATRIX', value: 'MEMBER-1' },
+  ];
+
+  test('should list every supported barcode type', () => {
+    expect(RENDERABLE_BARCODE_TYPES).toEqual(samples.map(sample => sample.type));
+  });
+
+  test.each(samples)('should render $type as SVG', barcode => {
+    const svg = renderBarcodeSvg(barcode);
+
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('<path');
+  });
+
+  test('should render the barcode stored on a pass', () => {
+    const barcode = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setBarcode('MEMBER-1', 'CODE_128')
+      .getPassObject().barcode as BarcodeObject;
+
+    expect(renderBarcodeSvg(barcode)).toBe(
+      renderBarcodeSvg({ type: 'CODE_128', value: 'MEMBER-1' }),
+    );
+  });
+
+  test('should print alternate text below the symbol', () => {
+    const plain = renderBarcodeSvg({ type: 'QR_CODE', value: 'MEMBER-1' });
+    const withText = renderBarcodeSvg({
+      type: 'QR_CODE',
+      value: 'MEMBER-1',
+      alternateText: 'Member 1',
+    });
+
+    expect(withText.length).toBeGreaterThan(plain.length);
+    expect(
+      renderBarcodeSvg(
+        { type: 'QR_CODE', value: 'MEMBER-1', alternateText: 'Member 1' },
+        { includeText: false },
+      ),
+    ).toBe(plain);
+  });
+
+  test('should encode UTF-8 values byte for byte', () => {
+    const utf8 = renderBarcodeSvg({ type: 'QR_CODE', value: 'Zoë', renderEncoding: 'UTF_8' });
+    const bytes = renderBarcodeSvg({
+      type: 'QR_CODE',
+      value: Buffer.from('Zoë', 'utf8').toString('latin1'),
+    });
+
+    expect(utf8).toBe(bytes);
+  });
+
+  test('should render PNG images', async () => {
+    const png = await renderBarcodePng({ type: 'QR_CODE', value: 'MEMBER-1' }, { scale: 2 });
+
+    const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(png.subarray(0, 8)).toEqual(signature);
+  });
+
+  test('should reject unsupported types and empty values', () => {
+    expect(() => renderBarcodeSvg({ type: 'TEXT_ONLY', value: 'MEMBER-1' })).toThrow(
+      'Cannot render TEXT_ONLY barcodes',
+    );
+    expect(() => renderBarcodeSvg({ type: 'QR_CODE', value: '' })).toThrow(
+      'Cannot render a barcode without a value',
+    );
+  });
+});
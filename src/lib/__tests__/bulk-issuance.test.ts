@@ -0,0 +1,164 @@
+import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { BulkIssueResult, issuePassesInBulk, readBulkRows } from '../bulk-issuance';
+import { GoogleGenericPass } from '../google-generic-pass';
+import { GenericPassSpec } from '../pass-spec';
+
+describe('Bulk issuance', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const credentials = { serviceAccountEmail: 'wallet@example.com', privateKey };
+  const design: GenericPassSpec = {
+    issuerId: 'issuer',
+    passId: 'member-{{ id }}',
+    classId: 'members',
+    class: { issuerName: 'Gym' },
+    object: { cardTitle: 'Membership', header: '{{ name }}', barcode: { value: '{{ id }}' } },
+  };
+
+  let dir: string;
+  const readResults = async (file: string): Promise<BulkIssueResult[]> =>
+    (await fs.readFile(file, 'utf8'))
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wallet-pass-bulk-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should stream CSV rows with quoted fields split across chunks', async () => {
+    const csv = '\uFEFFid,name\r\n1,"Doe, Alex"\r\n\r\n2,"Sam ""The Rock""\nSmith"\n3\n4,Kim';
+    const chunks = [csv.slice(0, 20), csv.slice(20, 33), csv.slice(33)];
+
+    const rows = [];
+    for await (const row of readBulkRows(Readable.from(chunks), 'csv')) rows.push(row);
+
+    expect(rows).toEqual([
+      { row: 1, data: { id: '1', name: 'Doe, Alex' } },
+      { row: 2, data: { id: '2', name: 'Sam "The Rock"\nSmith' } },
+      { row: 3, error: 'Row has 1 values, expected 2' },
+      { row: 4, data: { id: '4', name: 'Kim' } },
+    ]);
+  });
+
+  test('should stream NDJSON rows and isolate malformed lines', async () => {
+    const file = path.join(dir, 'rows.ndjson');
+    await fs.writeFile(file, '{"id":1}\n\n{"id":\n[1]\n');
+
+    const rows = [];
+    for await (const row of readBulkRows(file)) rows.push(row);
+
+    expect(rows.map(row => row.data || row.error?.split(':')[0])).toEqual([
+      { id: 1 },
+      'Malformed JSON',
+      'Expected a JSON object',
+    ]);
+  });
+
+  test('should merge a design with every row and write a result per row', async () => {
+    const input = path.join(dir, 'rows.csv');
+    const output = path.join(dir, 'results.ndjson');
+    await fs.writeFile(input, 'id,name\n1,Alex\n2,\n3,Sam\n');
+
+    const summary = await issuePassesInBulk({
+      input,
+      output,
+      design,
+      credentials,
+      linkOptions: { strict: true },
+    });
+
+    expect(summary).toEqual({ issued: 2, failed: 1, skipped: 0 });
+    const results = await readResults(output);
+    expect(results.find(result => result.key === '2')).toEqual({
+      row: 2,
+      key: '2',
+      objectId: 'issuer.member-2',
+      error: expect.stringContaining('object.header.defaultValue.value'),
+    });
+    const issued = results.find(result => result.key === '3') as BulkIssueResult;
+    const token = (issued.link as string).split('/').pop() as string;
+    expect(jwt.verify(token, publicKey)).toMatchObject({
+      payload: { genericObjects: [{ id: 'issuer.member-3', header: expect.anything() }] },
+    });
+  });
+
+  test('should bound the rows in flight', async () => {
+    const input = Readable.from(Array.from({ length: 12 }, (_, id) => `{"id":${id}}\n`));
+    let active = 0;
+    let maxActive = 0;
+
+    const summary = await issuePassesInBulk({
+      input,
+      format: 'ndjson',
+      output: path.join(dir, 'results.ndjson'),
+      credentials,
+      concurrency: 3,
+      mapRow: async data => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        if (data.id === 5) throw new Error('No such member');
+        return new GoogleGenericPass('issuer', `member-${data.id}`, 'members')
+          .setPassClass('Gym')
+          .setCardTitle('Membership')
+          .setHeaderInfo('Member');
+      },
+    });
+
+    expect(summary).toEqual({ issued: 11, failed: 1, skipped: 0 });
+    expect(maxActive).toBe(3);
+  });
+
+  test('should resume after a crash, skipping rows that have links', async () => {
+    const input = path.join(dir, 'rows.ndjson');
+    const output = path.join(dir, 'results.ndjson');
+    await fs.writeFile(input, '{"id":1,"name":"Alex"}\n{"id":2,"name":"Sam"}\n{"id":3}\n');
+    // Row 1 was issued, row 3 failed and row 2 was cut off mid-write
+    await fs.writeFile(
+      output,
+      '{"row":1,"key":"1","link":"https://pay.google.com/gp/v/save/x"}\n' +
+        '{"row":3,"key":"3","error":"Missing template variable(s): name"}\n' +
+        '{"row":2,"key":"2","li',
+    );
+
+    const keys: (string | undefined)[] = [];
+    const summary = await issuePassesInBulk({
+      input,
+      output,
+      design,
+      credentials,
+      workerThreads: 1,
+      onResult: result => keys.push(result.key),
+    });
+
+    expect(summary).toEqual({ issued: 1, failed: 1, skipped: 1 });
+    expect(keys.sort()).toEqual(['2', '3']);
+    const lines = (await fs.readFile(output, 'utf8')).split('\n');
+    expect(lines).toHaveLength(6);
+    // Results are written as rows complete, so the order of the new lines may vary
+    expect(lines.slice(3, 5).map(line => JSON.parse(line).key).sort()).toEqual(['2', '3']);
+  });
+
+  test('should require a way to build passes', async () => {
+    await expect(
+      issuePassesInBulk({ input: 'rows.csv', output: path.join(dir, 'out.ndjson') }),
+    ).rejects.toThrow('Either mapRow or design is required');
+    await expect(
+      issuePassesInBulk({ input: 'rows.csv', output: 'out.ndjson', design, workerThreads: 2 }),
+    ).rejects.toThrow('Worker threads need the credentials option');
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  ClassTemplateBuilder,
+  imageModuleField,
+  linkField,
+  textModuleField,
+} from '../class-template';
+import { GoogleGenericPass } from '../google-generic-pass';
+
+describe('ClassTemplateBuilder', () => {
+  const createPass = (): GoogleGenericPass =>
+    new GoogleGenericPass('issuer', 'pass', 'class')
+      .setPassClass('Issuer')
+      .setCardTitle('Card')
+      .setHeaderInfo('Header')
+      .addTextModule('points', '120', 'Points')
+      .addTextModule('tier', 'Gold', 'Tier')
+      .addImageModule('map', 'https://example.com/map.png')
+      .addLinks([{ id: 'site', uri: 'https://example.com', description: 'Website' }]);
+
+  test('should generate field paths from module ids', () => {
+    expect(textModuleField('points')).toBe("object.textModulesData['points']");
+    expect(textModuleField('terms', 'class')).toBe("class.textModulesData['terms']");
+    expect(imageModuleField('map')).toBe("object.imageModulesData['map']");
+    expect(linkField('site')).toBe("object.linksModuleData.uris['site']");
+  });
+
+  test('should build card rows of one, two and three items', () => {
+    const template = new ClassTemplateBuilder()
+      .addOneItemRow(textModuleField('points'))
+      .addTwoItemsRow(textModuleField('points'), textModuleField('tier'))
+      .addThreeItemsRow(textModuleField('points'), undefined, [
+        textModuleField('tier'),
+        'object.header',
+      ])
+      .build();
+
+    expect(template.cardTemplateOverride?.cardRowTemplateInfos).toEqual([
+      { oneItem: { item: { firstValue: { fields: [{ fieldPath: textModuleField('points') }] } } } },
+      {
+        twoItems: {
+          startItem: { firstValue: { fields: [{ fieldPath: textModuleField('points') }] } },
+          endItem: { firstValue: { fields: [{ fieldPath: textModuleField('tier') }] } },
+        },
+      },
+      {
+        threeItems: {
+          startItem: { firstValue: { fields: [{ fieldPath: textModuleField('points') }] } },
+          endItem: {
+            firstValue: {
+              fields: [{ fieldPath: textModuleField('tier') }, { fieldPath: 'object.header' }],
+            },
+          },
+        },
+      },
+    ]);
+  });
+
+  test('should build barcode, details and list sections', () => {
+    const template = new ClassTemplateBuilder()
+      .setBarcodeSection({ firstTop: textModuleField('tier'), secondTop: 'object.header' })
+      .addDetailsItem(textModuleField('points'))
+      .addDetailsItem({ predefinedItem: 'PREDEFINED_ITEM_UNSPECIFIED' })
+      .setListTemplate(textModuleField('tier'), 'object.header')
+      .build();
+
+    expect(template.cardBarcodeSectionDetails).toEqual({
+      firstTopDetail: { fieldSelector: { fields: [{ fieldPath: textModuleField('tier') }] } },
+      secondTopDetail: { fieldSelector: { fields: [{ fieldPath: 'object.header' }] } },
+    });
+    expect(template.detailsTemplateOverride?.detailsItemInfos).toEqual([
+      { item: { firstValue: { fields: [{ fieldPath: textModuleField('points') }] } } },
+      { item: { predefinedItem: 'PREDEFINED_ITEM_UNSPECIFIED' } },
+    ]);
+    expect(template.listTemplateOverride).toEqual({
+      firstRowOption: { fieldOption: { fields: [{ fieldPath: textModuleField('tier') }] } },
+      secondRowOption: { fields: [{ fieldPath: 'object.header' }] },
+    });
+  });
+
+  test('should list every referenced field path', () => {
+    const builder = new ClassTemplateBuilder()
+      .addTwoItemsRow(textModuleField('points'))
+      .setListTemplate({ transitOption: 'ORIGIN_NAME' }, linkField('site'));
+
+    expect(builder.getFieldPaths()).toEqual([textModuleField('points'), linkField('site')]);
+  });
+
+  test('should be accepted by setClassTemplateInfo alongside row helpers', () => {
+    const pass = createPass();
+    pass.setClassTemplateInfo(
+      new ClassTemplateBuilder()
+        .addCardRow(pass.createOneItemRow(imageModuleField('map')))
+        .addCardRow(pass.createThreeItemsRow(textModuleField('points'), textModuleField('tier'))),
+    );
+
+    expect(
+      pass.getPassClass()?.classTemplateInfo?.cardTemplateOverride?.cardRowTemplateInfos,
+    ).toHaveLength(2);
+    expect(pass.validate().valid).toBe(true);
+  });
+
+  test('should report field paths that do not exist on the pass', () => {
+    const pass = createPass().setClassTemplateInfo(
+      new ClassTemplateBuilder()
+        .addTwoItemsRow(textModuleField('points'), textModuleField('missing'))
+        .addDetailsItem('class.issuerName'),
+    );
+
+    const errors = pass.validate().diagnostics;
+    expect(errors).toEqual([
+      {
+        path:
+          'class.classTemplateInfo.cardTemplateOverride.cardRowTemplateInfos[0]' +
+          '.twoItems.endItem.firstValue.fields[0].fieldPath',
+        severity: 'error',
+        message: `Field path "${textModuleField('missing')}" does not exist on the pass`,
+      },
+    ]);
+  });
+});
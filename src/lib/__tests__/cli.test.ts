@@ -0,0 +1,197 @@
+import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../cli';
+import { clearCredentialsCache } from '../credentials';
+
+describe('wallet-pass CLI', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const spec = {
+    issuerId: 'issuer',
+    passId: 'member-42',
+    classId: 'members',
+    class: { issuerName: 'Gym' },
+    object: {
+      cardTitle: 'Membership',
+      header: 'Alex Doe',
+      textModules: [{ id: 'points', header: 'Points', body: '120' }],
+      barcode: { value: 'MEMBER-42' },
+    },
+  };
+
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  const run = (...args: string[]) =>
+    runCli(args, {
+      stdout: text => (stdout += text),
+      stderr: text => (stderr += text),
+      env: {},
+    });
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wallet-pass-cli-'));
+    await fs.writeFile(path.join(dir, 'pass.json'), JSON.stringify(spec));
+    await fs.writeFile(
+      path.join(dir, 'pass.yaml'),
+      [
+        'issuerId: issuer',
+        'passId: member-42',
+        'classId: members',
+        'class:',
+        '  issuerName: Gym',
+        'object:',
+        '  cardTitle: Membership',
+        "  header: ''",
+      ].join('\n'),
+    );
+    await fs.writeFile(
+      path.join(dir, 'key.json'),
+      JSON.stringify({
+        type: 'service_account',
+        client_email: 'wallet@example.iam.gserviceaccount.com',
+        private_key: privateKey,
+        private_key_id: 'key-1',
+      }),
+    );
+    await fs.writeFile(path.join(dir, 'public.pem'), publicKey);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    clearCredentialsCache();
+  });
+
+  test('should build a pass from a JSON spec', async () => {
+    await expect(run('build', path.join(dir, 'pass.json'))).resolves.toBe(0);
+
+    const json = JSON.parse(stdout);
+    expect(json.passObject.id).toBe('issuer.member-42');
+    expect(json.passObject.barcode.value).toBe('MEMBER-42');
+    expect(json.passClass.issuerName).toBe('Gym');
+  });
+
+  test('should validate YAML specs and exit with 1 on errors', async () => {
+    await expect(run('validate', path.join(dir, 'pass.yaml'))).resolves.toBe(1);
+    expect(stdout).toBe(
+      'error: object.header.defaultValue.value: Required field is missing or empty\n' +
+        'Pass is invalid\n',
+    );
+
+    stdout = '';
+    await expect(run('validate', path.join(dir, 'pass.json'))).resolves.toBe(0);
+    expect(stdout).toBe('Pass is valid\n');
+  });
+
+  test('should report spec schema errors when validating', async () => {
+    const file = path.join(dir, 'typo.json');
+    await fs.writeFile(file, JSON.stringify({ ...spec, object: { ...spec.object, titel: 'x' } }));
+
+    await expect(run('validate', file)).resolves.toBe(1);
+    expect(stdout).toBe('error: object.titel: Unknown property\nPass is invalid\n');
+
+    await expect(run('build', file)).resolves.toBe(1);
+    expect(stderr).toContain('wallet-pass: Pass spec is invalid with 1 error(s)');
+  });
+
+  test('should print the spec schema', async () => {
+    await expect(run('schema')).resolves.toBe(0);
+
+    expect(JSON.parse(stdout).$id).toBe(
+      'https://unpkg.com/wallet-pass/schema/generic-pass-spec.schema.json',
+    );
+  });
+
+  test('should print the wallet payload', async () => {
+    await expect(run('payload', path.join(dir, 'pass.json'))).resolves.toBe(0);
+
+    expect(JSON.parse(stdout).genericObjects[0].cardTitle.defaultValue.value).toBe('Membership');
+  });
+
+  test('should sign a save link and decode it again', async () => {
+    const keyFile = path.join(dir, 'key.json');
+    const args = ['--credentials', keyFile, '--origin', 'https://example.com'];
+
+    await expect(run('sign', path.join(dir, 'pass.json'), '--link', ...args)).resolves.toBe(0);
+    const link = stdout.trim();
+    expect(link.startsWith('https://pay.google.com/gp/v/save/')).toBe(true);
+
+    const token = link.split('/').pop() as string;
+    expect(jwt.verify(token, publicKey, { complete: true })).toMatchObject({
+      header: { kid: 'key-1' },
+      payload: { iss: 'wallet@example.iam.gserviceaccount.com', origins: ['https://example.com'] },
+    });
+
+    stdout = '';
+    const publicKeyFile = path.join(dir, 'public.pem');
+    await expect(run('decode', link, `--public-key=${publicKeyFile}`)).resolves.toBe(0);
+    expect(JSON.parse(stdout).payload.genericObjects[0].id).toBe('issuer.member-42');
+  });
+
+  test('should refuse to sign invalid passes with --strict', async () => {
+    const keyFile = path.join(dir, 'key.json');
+
+    await expect(
+      run('sign', path.join(dir, 'pass.yaml'), '--strict', '--credentials', keyFile),
+    ).resolves.toBe(1);
+    expect(stderr).toContain('wallet-pass: Pass validation failed with 1 error(s)');
+  });
+
+  test('should write output to a file', async () => {
+    const out = path.join(dir, 'built.json');
+
+    await expect(run('build', path.join(dir, 'pass.json'), '--out', out)).resolves.toBe(0);
+
+    expect(stdout).toBe('');
+    expect(JSON.parse(await fs.readFile(out, 'utf8')).passId).toBe('member-42');
+  });
+
+  test('should issue save links in bulk', async () => {
+    const design = path.join(dir, 'design.json');
+    const rows = path.join(dir, 'rows.csv');
+    const out = path.join(dir, 'results.ndjson');
+    const object = { ...spec.object, header: '{{ name }}' };
+    await fs.writeFile(design, JSON.stringify({ ...spec, passId: 'member-{{ id }}', object }));
+    await fs.writeFile(rows, 'id,name\n1,Alex\n2,Sam\n');
+    const args = ['--data', rows, '--out', out, '--credentials', path.join(dir, 'key.json')];
+
+    await expect(run('bulk', design, ...args, '--concurrency', '2')).resolves.toBe(0);
+    expect(stdout).toBe('Issued 2, failed 0, skipped 0 issued earlier\n');
+
+    stdout = '';
+    await expect(run('bulk', design, ...args)).resolves.toBe(0);
+    expect(stdout).toBe('Issued 0, failed 0, skipped 2 issued earlier\n');
+
+    await expect(run('bulk', design, '--data', rows)).resolves.toBe(2);
+    await expect(run('bulk', design, ...args, '--workers', 'many')).resolves.toBe(2);
+    expect(stderr).toContain('wallet-pass: Option --workers must be a positive integer');
+  });
+
+  test('should report usage errors', async () => {
+    await expect(run()).resolves.toBe(2);
+    expect(stdout).toContain('Usage: wallet-pass <command> [options]');
+
+    await expect(run('publish', 'pass.json')).resolves.toBe(2);
+    await expect(run('build', 'pass.json', '--colour')).resolves.toBe(2);
+    expect(stderr).toContain('wallet-pass: Unknown command "publish"');
+    expect(stderr).toContain('wallet-pass: Unknown option --colour');
+  });
+
+  test('should report missing credentials', async () => {
+    await expect(
+      run('sign', path.join(dir, 'pass.json'), '--credentials', path.join(dir, 'missing.json')),
+    ).resolves.toBe(1);
+    expect(stderr).toContain('wallet-pass: Credentials file not found');
+  });
+});
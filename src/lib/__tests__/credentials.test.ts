@@ -0,0 +1,120 @@
+import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CredentialsError,
+  clearCredentialsCache,
+  loadServiceAccountCredentials,
+  parseServiceAccountKey,
+} from '../credentials';
+import { GoogleGenericPass } from '../google-generic-pass';
+
+describe('service account credentials', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const keyJson = {
+    type: 'service_account',
+    project_id: 'wallet-project',
+    private_key_id: 'key-123',
+    private_key: privateKey,
+    client_email: 'wallet@wallet-project.iam.gserviceaccount.com',
+  };
+  const expected = {
+    serviceAccountEmail: keyJson.client_email,
+    privateKey,
+    privateKeyId: 'key-123',
+    projectId: 'wallet-project',
+  };
+
+  let dir: string;
+  let keyFile: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wallet-credentials-'));
+    keyFile = path.join(dir, 'key.json');
+    await fs.writeFile(keyFile, JSON.stringify(keyJson));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearCredentialsCache();
+  });
+
+  test('should read the email, key id and project from a key file', async () => {
+    await expect(loadServiceAccountCredentials({ keyFile })).resolves.toEqual(expected);
+  });
+
+  test('should read the key file or JSON blob named by the environment', async () => {
+    const base64 = Buffer.from(JSON.stringify(keyJson)).toString('base64');
+
+    await expect(
+      loadServiceAccountCredentials({ env: { GOOGLE_APPLICATION_CREDENTIALS: keyFile } }),
+    ).resolves.toEqual(expected);
+    await expect(
+      loadServiceAccountCredentials({ env: { GOOGLE_WALLET_CREDENTIALS_JSON: base64 } }),
+    ).resolves.toEqual(expected);
+  });
+
+  test('should cache parsed credentials per source', async () => {
+    const copy = path.join(dir, 'cached.json');
+    await fs.writeFile(copy, JSON.stringify(keyJson));
+
+    const first = await loadServiceAccountCredentials({ keyFile: copy });
+    await fs.unlink(copy);
+
+    await expect(loadServiceAccountCredentials({ keyFile: copy })).resolves.toBe(first);
+    await expect(loadServiceAccountCredentials({ keyFile: copy, cache: false })).rejects.toThrow(
+      'Credentials file not found',
+    );
+  });
+
+  test('should tell missing files, malformed JSON and wrong key types apart', async () => {
+    const codeOf = (promise: Promise<unknown>) =>
+      promise.catch((error: CredentialsError) => error.code);
+    const { privateKey: ecKey } = generateKeyPairSync('ec', {
+      namedCurve: 'prime256v1',
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    await expect(codeOf(loadServiceAccountCredentials({ keyFile: 'missing.json' }))).resolves.toBe(
+      'MISSING_FILE',
+    );
+    await expect(codeOf(loadServiceAccountCredentials({ json: '{"type":' }))).resolves.toBe(
+      'MALFORMED_JSON',
+    );
+    await expect(
+      codeOf(loadServiceAccountCredentials({ json: { ...keyJson, type: 'authorized_user' } })),
+    ).resolves.toBe('WRONG_KEY_TYPE');
+    await expect(
+      codeOf(loadServiceAccountCredentials({ json: { ...keyJson, private_key: ecKey } })),
+    ).resolves.toBe('WRONG_KEY_TYPE');
+    await expect(
+      codeOf(loadServiceAccountCredentials({ env: { CLOUDSDK_CONFIG: dir } })),
+    ).resolves.toBe('NOT_FOUND');
+    expect(() => parseServiceAccountKey({ ...keyJson, client_email: '' })).toThrow(
+      'No client_email found in credentials JSON',
+    );
+  });
+
+  test('should stamp the key id into the JWT header', async () => {
+    const pass = await new GoogleGenericPass('issuer', 'pass', 'class')
+      .setPassClass('Issuer')
+      .setCardTitle('Card')
+      .loadServiceAccountCredentials({ keyFile });
+
+    const token = pass.generateJwt();
+    const decoded = jwt.verify(token, publicKey, { complete: true }) as jwt.Jwt;
+
+    expect(decoded.header.kid).toBe('key-123');
+    expect((decoded.payload as jwt.JwtPayload).iss).toBe(keyJson.client_email);
+  });
+});
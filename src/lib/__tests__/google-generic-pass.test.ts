@@ -1,4 +1,5 @@
 import { GoogleGenericPass } from '../google-generic-pass';
+import { PassValidationError } from '../validation';
 import * as jwt from 'jsonwebtoken';
 import fs from 'fs';
 
@@ -150,13 +151,36 @@ describe('GoogleGenericPass', () => {
     });
 
     test('should set basic info', () => {
-      pass.setBasicInfo('LOYALTY_CARD', '#FFFFFF');
+      pass.setBasicInfo('GENERIC_LOYALTY_CARD', '#FFFFFF');
       const passObj = pass.getPassObject();
 
-      expect(passObj.genericType).toBe('LOYALTY_CARD');
+      expect(passObj.genericType).toBe('GENERIC_LOYALTY_CARD');
       expect(passObj.hexBackgroundColor).toBe('#FFFFFF');
     });
 
+    test('should reject unknown enum values from untyped callers', () => {
+      const untyped = pass as unknown as Record<string, (...args: unknown[]) => unknown>;
+
+      expect(() => untyped.setBasicInfo('LOYALTY_CARD')).toThrow(
+        'Invalid generic type "LOYALTY_CARD", expected one of: GENERIC_TYPE_UNSPECIFIED',
+      );
+      expect(() => untyped.setBarcode('123', 'QRCODE')).toThrow('Invalid barcode type "QRCODE"');
+      expect(() => untyped.setBarcode('123', 'QR_CODE', '', 'UTF8')).toThrow(
+        'Invalid render encoding "UTF8"',
+      );
+      expect(() => untyped.setState('VALID')).toThrow('Invalid object state "VALID"');
+      expect(() => untyped.setPassClassWithDetails('Issuer', 'PENDING')).toThrow(
+        'Invalid review status "PENDING"',
+      );
+    });
+
+    test('should set the object state and barcode render encoding', () => {
+      pass.setState('EXPIRED').setBarcode('123', 'QR_CODE', '123', 'UTF_8');
+
+      expect(pass.getPassObject().state).toBe('EXPIRED');
+      expect(pass.getPassObject().barcode?.renderEncoding).toBe('UTF_8');
+    });
+
     test('should set card title', () => {
       pass.setCardTitle('My Card');
       const passObj = pass.getPassObject();
@@ -251,6 +275,48 @@ describe('GoogleGenericPass', () => {
       expect(passObj.groupingInfo?.sortIndex).toBe(2);
     });
 
+    test('should use the default language and translations for localized fields', () => {
+      pass
+        .setDefaultLanguage('de-DE')
+        .setCardTitle('Karte', { 'es-ES': 'Tarjeta' })
+        .setHeaderInfo('Kopf', 'Unterkopf', { subheader: { ja: 'サブ' } })
+        .setLogo('https://example.com/logo.png', 'Logo', { 'es-ES': 'Logotipo' })
+        .addTextModule('info', 'Inhalt', 'Titel', { body: { 'es-ES': 'Contenido' } })
+        .addLinks([
+          {
+            id: 'web',
+            uri: 'https://example.com',
+            description: 'Web',
+            translations: { fr: 'Site' },
+          },
+        ]);
+      const passObj = pass.getPassObject();
+
+      expect(passObj.cardTitle?.defaultValue.language).toBe('de-DE');
+      expect(passObj.cardTitle?.translatedValues).toEqual([
+        { language: 'es-ES', value: 'Tarjeta' },
+      ]);
+      expect(passObj.header?.translatedValues).toBeUndefined();
+      expect(passObj.subheader?.translatedValues).toEqual([{ language: 'ja', value: 'サブ' }]);
+      expect(passObj.logo?.contentDescription?.translatedValues?.[0].value).toBe('Logotipo');
+      expect(passObj.textModulesData?.[0].localizedBody?.defaultValue).toEqual({
+        language: 'de-DE',
+        value: 'Inhalt',
+      });
+      expect(passObj.textModulesData?.[0].localizedHeader).toBeUndefined();
+      expect(passObj.linksModuleData?.uris[0].localizedDescription?.translatedValues).toEqual([
+        { language: 'fr', value: 'Site' },
+      ]);
+      expect(passObj.linksModuleData?.uris[0]).not.toHaveProperty('translations');
+    });
+
+    test('should reject malformed language tags', () => {
+      expect(() => pass.setDefaultLanguage('en_US')).toThrow('Invalid BCP 47 language tag');
+      expect(() => pass.setCardTitle('Card', { 'not a tag': 'x' })).toThrow(
+        'Invalid BCP 47 language tag',
+      );
+    });
+
     test('should add custom field', () => {
       pass.addCustomField('customField', { value: 'test' });
       const passObj = pass.getPassObject();
@@ -311,6 +377,27 @@ describe('GoogleGenericPass', () => {
       expect(passObj.subheader?.defaultValue.value).toBe('Subheader');
     });
 
+    test('should refuse to sign in strict mode when errors exist', () => {
+      const pass = new GoogleGenericPass(issuerId, passId, classId);
+      pass.setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey);
+      pass.setCardTitle('Card');
+      pass.setHeaderInfo('Header', '');
+
+      expect(() => pass.generateJwt([], { strict: true })).toThrow(PassValidationError);
+      expect(jwt.sign).not.toHaveBeenCalled();
+      expect(pass.getPassObject().subheader?.defaultValue.value).toBe('');
+    });
+
+    test('should sign in strict mode when the pass is valid', () => {
+      const pass = new GoogleGenericPass(issuerId, passId, classId);
+      pass.setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey);
+      pass.setCardTitle('Card').setHeaderInfo('Header');
+
+      expect(pass.generateAddToWalletLink([], { strict: true })).toBe(
+        'https://pay.google.com/gp/v/save/mock-jwt-token',
+      );
+    });
+
     test('should ensure image contentDescription is never empty', () => {
       const pass = new GoogleGenericPass(issuerId, passId, classId);
       pass.setLogo('https://example.com/logo.png');
@@ -320,6 +407,186 @@ describe('GoogleGenericPass', () => {
     });
   });
 
+  describe('Serialization', () => {
+    const createPass = (): GoogleGenericPass =>
+      new GoogleGenericPass(issuerId, passId, classId)
+        .setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey)
+        .setDefaultLanguage('de-DE')
+        .setPassClass('Test Issuer')
+        .setCardTitle('Mitglied')
+        .addTextModule('notes', 'Hallo', 'Notiz');
+
+    test('should serialize builder state without the private key', () => {
+      const json = createPass().toJSON();
+
+      expect(json).toMatchObject({
+        version: 1,
+        vertical: 'generic',
+        issuerId,
+        passId,
+        classId,
+        defaultLanguage: 'de-DE',
+        serviceAccountEmail,
+      });
+      expect(json.passClass?.issuerName).toBe('Test Issuer');
+      expect(JSON.stringify(json)).not.toContain('PRIVATE KEY');
+    });
+
+    test('should round-trip through a JSON string', () => {
+      const original = createPass();
+      const restored = GoogleGenericPass.fromJSON(JSON.stringify(original));
+
+      expect(restored.toJSON()).toEqual(original.toJSON());
+      expect(restored.getDefaultLanguage()).toBe('de-DE');
+      expect(() => restored.generateJwt()).toThrow('Service account credentials not set');
+
+      restored.addTextModule('more', 'Mehr');
+      expect(original.getPassObject().textModulesData).toHaveLength(1);
+    });
+
+    test('should reject newer versions and other verticals', () => {
+      const json = createPass().toJSON();
+
+      expect(() => GoogleGenericPass.fromJSON({ ...json, version: 2 })).toThrow(
+        'Unsupported pass JSON version 2',
+      );
+      expect(() => GoogleGenericPass.fromJSON({ ...json, vertical: 'loyalty' })).toThrow(
+        'Expected a generic pass but got loyalty',
+      );
+    });
+
+    test('should build a pass from resources fetched from Google', () => {
+      const source = createPass();
+      const pass = GoogleGenericPass.fromGoogleResource(
+        source.getPassObject(),
+        source.getPassClass(),
+      );
+
+      expect(pass.toJSON()).toMatchObject({ issuerId, passId, classId });
+      expect(pass.getPassObject()).toEqual(source.getPassObject());
+      expect(pass.getPassObject()).not.toBe(source.getPassObject());
+    });
+  });
+
+  describe('Cloning', () => {
+    const createTemplate = (): GoogleGenericPass =>
+      new GoogleGenericPass(issuerId, 'template', classId)
+        .setServiceAccountCredentials(serviceAccountEmail, '/path/to/key.json')
+        .setPassClass('Test Issuer')
+        .setLogo('https://example.com/logo.png')
+        .setCardTitle('Membership')
+        .addTextModule('perks', 'Free coffee', 'Perks');
+
+    test('should derive passes with new ids and shared credentials', () => {
+      const template = createTemplate();
+      (fs.readFileSync as jest.Mock).mockClear();
+
+      const pass = template.clone('member-42');
+
+      expect(pass).toBeInstanceOf(GoogleGenericPass);
+      expect(pass.getPassObject().id).toBe(`${issuerId}.member-42`);
+      expect(pass.getPassObject().classId).toBe(`${issuerId}.${classId}`);
+      expect(pass.getPassObject().logo).toEqual(template.getPassObject().logo);
+      expect(pass.getPassClass()).toEqual(template.getPassClass());
+      expect(pass.generateJwt()).toBe('mock-jwt-token');
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    test('should not share mutable data with the template or other clones', () => {
+      const template = createTemplate();
+      const first = template.clone('member-1').addTextModule('name', 'Ada');
+      const second = template.clone('member-2').addAdditionalInfo('level', 'Level', 'Gold');
+
+      expect(template.getPassObject().textModulesData).toHaveLength(1);
+      expect(first.getPassObject().textModulesData).toHaveLength(2);
+      expect(second.getPassObject().textModulesData).toHaveLength(1);
+      expect(template.getPassObject().additionalInfo).toHaveLength(1);
+      expect(second.getPassObject().additionalInfo).toHaveLength(2);
+      expect(first.getPassClass()).not.toBe(template.getPassClass());
+    });
+
+    test('should apply per-holder overrides', () => {
+      const pass = createTemplate().clone('member-7', { hexBackgroundColor: '#112233' });
+
+      expect(pass.getPassObject().hexBackgroundColor).toBe('#112233');
+      expect(pass.getPassObject().id).toBe(`${issuerId}.member-7`);
+    });
+  });
+
+  describe('Messages', () => {
+    let pass: GoogleGenericPass;
+
+    beforeEach(() => {
+      pass = new GoogleGenericPass(issuerId, passId, classId).setPassClass('Test Issuer');
+    });
+
+    test('should add messages with a display interval and translations', () => {
+      pass.addMessage({
+        id: 'closure',
+        header: 'Gym closed',
+        body: 'Closed on Monday for maintenance',
+        start: '2024-05-01T00:00:00Z',
+        end: '2024-05-07T00:00:00Z',
+        translations: { header: { 'de-DE': 'Studio geschlossen' } },
+      });
+
+      expect(pass.getPassObject().messages).toEqual([
+        {
+          id: 'closure',
+          header: 'Gym closed',
+          body: 'Closed on Monday for maintenance',
+          messageType: 'TEXT',
+          displayInterval: {
+            start: { date: '2024-05-01T00:00:00Z' },
+            end: { date: '2024-05-07T00:00:00Z' },
+          },
+          localizedHeader: {
+            defaultValue: { language: 'en-US', value: 'Gym closed' },
+            translatedValues: [{ language: 'de-DE', value: 'Studio geschlossen' }],
+          },
+        },
+      ]);
+    });
+
+    test('should add class messages and build addMessage request bodies', () => {
+      pass.addMessage(
+        { id: 'tier', body: 'Your tier was upgraded', messageType: 'EXPIRATION_NOTIFICATION' },
+        'class',
+      );
+
+      expect(pass.getPassObject().messages).toBeUndefined();
+      expect(pass.getAddMessageRequest('tier', 'class')).toEqual({
+        message: {
+          id: 'tier',
+          body: 'Your tier was upgraded',
+          messageType: 'EXPIRATION_NOTIFICATION',
+        },
+      });
+      expect(() => pass.getAddMessageRequest('tier')).toThrow(
+        'Message tier not found on the pass object',
+      );
+    });
+
+    test('should remove messages and reject duplicates', () => {
+      pass.addMessage({ id: 'a', body: 'First' }).addMessage({ id: 'b', body: 'Second' });
+
+      expect(() => pass.addMessage({ id: 'a', body: 'Again' })).toThrow(
+        'Message a is already on the pass object',
+      );
+
+      pass.removeMessage('a');
+      expect(pass.getPassObject().messages?.map(message => message.id)).toEqual(['b']);
+    });
+
+    test('should require a class for class messages', () => {
+      const withoutClass = new GoogleGenericPass(issuerId, passId, classId);
+
+      expect(() => withoutClass.addMessage({ id: 'a', body: 'Hi' }, 'class')).toThrow(
+        'Pass class must be created before adding messages',
+      );
+    });
+  });
+
   describe('Debug methods', () => {
     test('should not throw when calling debugPayload', () => {
       const pass = new GoogleGenericPass(issuerId, passId, classId);
@@ -0,0 +1,289 @@
+import { GoogleWalletClient, GoogleWalletApiError } from '../google-wallet-client';
+import { GoogleGenericPass } from '../google-generic-pass';
+import { createTestSigner } from '../signer';
+import * as jwt from 'jsonwebtoken';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('GoogleWalletClient', () => {
+  const serviceAccountEmail = 'test@example.com';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (request: RecordedRequest) => { status: number; body?: unknown };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const recorded = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        };
+        requests.push(recorded);
+
+        const reply =
+          recorded.url === '/token'
+            ? { status: 200, body: { access_token: 'mock-access-token', expires_in: 3600 } }
+            : respond(recorded);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = request => ({ status: 200, body: request.body ? JSON.parse(request.body) : {} });
+  });
+
+  const createClient = (): GoogleWalletClient =>
+    new GoogleWalletClient({
+      credentials: { serviceAccountEmail, privateKey },
+      baseUrl: `${baseUrl}/walletobjects/v1/`,
+      tokenUrl: `${baseUrl}/token`,
+    });
+
+  test('should exchange a signed assertion for an access token', async () => {
+    const client = createClient();
+    const token = await client.getAccessToken();
+
+    expect(token).toBe('mock-access-token');
+    expect(requests).toHaveLength(1);
+
+    const form = new URLSearchParams(requests[0].body);
+    expect(form.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+
+    const claims = jwt.verify(form.get('assertion') as string, publicKey) as jwt.JwtPayload;
+    expect(claims.iss).toBe(serviceAccountEmail);
+    expect(claims.aud).toBe(`${baseUrl}/token`);
+    expect(claims.scope).toBe('https://www.googleapis.com/auth/wallet_object.issuer');
+  });
+
+  test('should cache the access token between calls', async () => {
+    const client = createClient();
+    await client.getObject('issuer.pass');
+    await client.getClass('issuer.class');
+
+    expect(requests.filter(request => request.url === '/token')).toHaveLength(1);
+  });
+
+  test('should insert, patch and update generic objects', async () => {
+    const client = createClient();
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class').setCardTitle('Card');
+
+    await client.insertObject(pass.getPassObject());
+    await client.patchObject('issuer.pass', { hexBackgroundColor: '#000000' });
+    await client.updateObject(pass.getPassObject());
+
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /walletobjects/v1/genericObject',
+      'PATCH /walletobjects/v1/genericObject/issuer.pass',
+      'PUT /walletobjects/v1/genericObject/issuer.pass',
+    ]);
+    expect(apiCalls[0].headers.authorization).toBe('Bearer mock-access-token');
+    expect(JSON.parse(apiCalls[1].body)).toEqual({ hexBackgroundColor: '#000000' });
+  });
+
+  test('should insert and update generic classes', async () => {
+    const client = createClient();
+    const passClass = { id: 'issuer.class', issuerName: 'Issuer' };
+
+    const inserted = await client.insertClass(passClass);
+    await client.updateClass(passClass);
+
+    expect(inserted).toEqual(passClass);
+    expect(requests.filter(request => request.url !== '/token').map(r => r.method)).toEqual([
+      'POST',
+      'PUT',
+    ]);
+  });
+
+  test('should list classes and objects with query parameters', async () => {
+    const client = createClient();
+    respond = () => ({ status: 200, body: { resources: [], pagination: { resultsPerPage: 0 } } });
+
+    const classes = await client.listClasses('issuer', { maxResults: 10 });
+    await client.listObjects('issuer.class', { token: 'next' });
+
+    expect(classes.resources).toEqual([]);
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls[0].url).toBe('/walletobjects/v1/genericClass?issuerId=issuer&maxResults=10');
+    expect(apiCalls[1].url).toBe('/walletobjects/v1/genericObject?classId=issuer.class&token=next');
+  });
+
+  test('should surface API errors with status and body', async () => {
+    const client = createClient();
+    respond = () => ({ status: 404, body: { error: { code: 404, message: 'Not found' } } });
+
+    const call = client.getObject('issuer.missing');
+    await expect(call).rejects.toBeInstanceOf(GoogleWalletApiError);
+    await expect(call).rejects.toMatchObject({
+      status: 404,
+      message: expect.stringContaining('Not found'),
+    });
+  });
+
+  test('should be created from a pass with its credentials', async () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class');
+    expect(() => pass.createWalletClient()).toThrow('Service account credentials not set');
+
+    pass.setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey);
+    const client = pass.createWalletClient({
+      baseUrl: `${baseUrl}/walletobjects/v1`,
+      tokenUrl: `${baseUrl}/token`,
+    });
+
+    await expect(client.getObject('issuer.pass')).resolves.toEqual({});
+  });
+
+  test('should sign the token assertion with the signer of a pass', async () => {
+    const remote = createTestSigner({ keyId: 'kms-key', async: true });
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class').setSigner(
+      serviceAccountEmail,
+      remote.signer,
+    );
+    const client = pass.createWalletClient({
+      baseUrl: `${baseUrl}/walletobjects/v1`,
+      tokenUrl: `${baseUrl}/token`,
+    });
+
+    await expect(client.getObject('issuer.pass')).resolves.toEqual({});
+
+    const assertion = new URLSearchParams(requests[0].body).get('assertion') as string;
+    expect(jwt.decode(assertion, { complete: true })?.header.kid).toBe('kms-key');
+    expect(jwt.verify(assertion, remote.publicKey)).toMatchObject({ iss: serviceAccountEmail });
+  });
+
+  test('should replace existing resources when upserting', async () => {
+    const client = createClient();
+    respond = request =>
+      request.method === 'POST'
+        ? { status: 409, body: { error: { code: 409, message: 'Already exists' } } }
+        : { status: 200, body: JSON.parse(request.body) };
+
+    await client.upsertClass({ id: 'issuer.class', issuerName: 'Issuer' }, 'loyalty');
+
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /walletobjects/v1/loyaltyClass',
+      'PUT /walletobjects/v1/loyaltyClass/issuer.class',
+    ]);
+  });
+
+  test('should fall back to a skinny JWT when the save link is too long', async () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey)
+      .setPassClass('Issuer')
+      .setCardTitle('Member')
+      .addTextModule('notes', 'x'.repeat(2000), 'Notes');
+
+    const link = await pass.generateAddToWalletLinkWithFallback([], { client: createClient() });
+
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /walletobjects/v1/genericClass',
+      'POST /walletobjects/v1/genericObject',
+    ]);
+
+    const claims = jwt.verify(link.split('/').pop() as string, publicKey) as jwt.JwtPayload;
+    expect(claims.payload).toEqual({
+      genericObjects: [{ id: 'issuer.pass', classId: 'issuer.class' }],
+    });
+    expect(link.length).toBeLessThan(1800);
+  });
+
+  test('should fall back to a skinny JWT with an asynchronous signer', async () => {
+    const remote = createTestSigner({ async: true });
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setSigner(serviceAccountEmail, remote.signer)
+      .setPassClass('Issuer')
+      .setCardTitle('Member')
+      .addTextModule('notes', 'x'.repeat(2000), 'Notes');
+    const client = pass.createWalletClient({
+      baseUrl: `${baseUrl}/walletobjects/v1`,
+      tokenUrl: `${baseUrl}/token`,
+    });
+
+    const link = await pass.generateAddToWalletLinkWithFallback([], { client });
+
+    const claims = jwt.verify(link.split('/').pop() as string, remote.publicKey) as jwt.JwtPayload;
+    expect(claims.payload).toEqual({
+      genericObjects: [{ id: 'issuer.pass', classId: 'issuer.class' }],
+    });
+    expect(requests.filter(request => request.url !== '/token')).toHaveLength(2);
+  });
+
+  test('should keep the full JWT when the save link fits', async () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey)
+      .setPassClass('Issuer')
+      .setCardTitle('Member');
+
+    const link = await pass.generateAddToWalletLinkWithFallback([], { client: createClient() });
+
+    const claims = jwt.verify(link.split('/').pop() as string, publicKey) as jwt.JwtPayload;
+    expect(claims.payload.genericObjects[0].cardTitle).toBeDefined();
+    expect(requests).toHaveLength(0);
+  });
+
+  test('should patch the state of a saved object', async () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class').expire('2030-01-01T00:00:00Z');
+
+    await pass.patchStateInWallet(createClient());
+
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls.map(request => `${request.method} ${request.url}`)).toEqual([
+      'PATCH /walletobjects/v1/genericObject/issuer.pass',
+    ]);
+    expect(JSON.parse(apiCalls[0].body)).toEqual({
+      state: 'EXPIRED',
+      validTimeInterval: { end: { date: '2030-01-01T00:00:00Z' } },
+    });
+  });
+
+  test('should push messages to saved objects and classes', async () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setPassClass('Issuer')
+      .addMessage({ id: 'closure', body: 'Closed Monday' })
+      .addMessage({ id: 'news', body: 'New opening hours' }, 'class');
+    respond = () => ({ status: 200, body: { resource: {} } });
+
+    await pass.sendMessageToWallet('closure', 'object', createClient());
+    await pass.sendMessageToWallet('news', 'class', createClient());
+
+    const apiCalls = requests.filter(request => request.url !== '/token');
+    expect(apiCalls.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /walletobjects/v1/genericObject/issuer.pass/addMessage',
+      'POST /walletobjects/v1/genericClass/issuer.class/addMessage',
+    ]);
+    expect(JSON.parse(apiCalls[0].body)).toEqual({
+      message: { id: 'closure', body: 'Closed Monday', messageType: 'TEXT' },
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { createLocalizedObject, isValidLanguageTag } from '../localization';
+
+describe('localization', () => {
+  describe('isValidLanguageTag', () => {
+    test.each([
+      'en',
+      'en-US',
+      'es-419',
+      'zh-Hant-TW',
+      'de-CH-1901',
+      'ja-JP-u-ca-japanese',
+      'x-custom',
+    ])('should accept %s', tag => {
+      expect(isValidLanguageTag(tag)).toBe(true);
+    });
+
+    test.each(['', 'e', 'en_US', 'english-US-', 'en-US-', '123', 'en--US'])(
+      'should reject %s',
+      tag => {
+        expect(isValidLanguageTag(tag)).toBe(false);
+      },
+    );
+  });
+
+  describe('createLocalizedObject', () => {
+    test('should create default value without translations', () => {
+      expect(createLocalizedObject('Card')).toEqual({
+        defaultValue: { language: 'en-US', value: 'Card' },
+      });
+    });
+
+    test('should add translated values', () => {
+      const localized = createLocalizedObject('Card', 'en-GB', {
+        'es-ES': 'Tarjeta',
+        ja: 'カード',
+      });
+
+      expect(localized.defaultValue).toEqual({ language: 'en-GB', value: 'Card' });
+      expect(localized.translatedValues).toEqual([
+        { language: 'es-ES', value: 'Tarjeta' },
+        { language: 'ja', value: 'カード' },
+      ]);
+    });
+
+    test('should throw on malformed language tags', () => {
+      expect(() => createLocalizedObject('Card', 'en_US')).toThrow('Invalid BCP 47 language tag');
+      expect(() => createLocalizedObject('Card', 'en-US', { 'de DE': 'Karte' })).toThrow(
+        'Invalid BCP 47 language tag',
+      );
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { KeyObject, generateKeyPairSync, sign } from 'crypto';
+import { GoogleGenericPass } from '../google-generic-pass';
+import {
+  CallbackRootKey,
+  PassCallbackEvent,
+  PassCallbackVerificationError,
+  SignedCallbackMessage,
+  createPassCallbackHandler,
+  verifyPassCallback,
+} from '../pass-callback';
+
+describe('pass callbacks', () => {
+  const issuerId = '3388000000012345678';
+  const now = 1_700_000_000_000;
+
+  const createKey = () => generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const exportKey = (key: KeyObject) =>
+    key.export({ format: 'der', type: 'spki' }).toString('base64');
+  const signedString = (values: string[]) =>
+    Buffer.concat(
+      values.map(value => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(Buffer.byteLength(value), 0);
+        return Buffer.concat([length, Buffer.from(value)]);
+      }),
+    );
+
+  const root = createKey();
+  const intermediate = createKey();
+  const rootKeys: CallbackRootKey[] = [
+    { keyValue: exportKey(root.publicKey), protocolVersion: 'ECv2SigningOnly' },
+  ];
+
+  // Sign a callback the way Google does, with locally generated keys
+  const createCallback = (
+    event: Partial<PassCallbackEvent> = {},
+    recipientId = issuerId,
+  ): SignedCallbackMessage => {
+    const signedKey = JSON.stringify({
+      keyValue: exportKey(intermediate.publicKey),
+      keyExpiration: String(now + 86_400_000),
+    });
+    const signedMessage = JSON.stringify({
+      classId: `${issuerId}.class`,
+      objectId: `${issuerId}.pass`,
+      eventType: 'save',
+      expTimeMillis: now + 60_000,
+      count: 1,
+      nonce: 'nonce-1',
+      ...event,
+    });
+
+    return {
+      protocolVersion: 'ECv2SigningOnly',
+      signature: sign(
+        'sha256',
+        signedString(['GooglePayPasses', recipientId, 'ECv2SigningOnly', signedMessage]),
+        intermediate.privateKey,
+      ).toString('base64'),
+      intermediateSigningKey: {
+        signedKey,
+        signatures: [
+          sign(
+            'sha256',
+            signedString(['Google', 'ECv2SigningOnly', signedKey]),
+            root.privateKey,
+          ).toString('base64'),
+        ],
+      },
+      signedMessage,
+    };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should verify and parse a signed callback', () => {
+    const body = JSON.stringify(createCallback());
+    const event = verifyPassCallback(body, { issuerId, rootKeys, now });
+
+    expect(event).toEqual({
+      classId: `${issuerId}.class`,
+      objectId: `${issuerId}.pass`,
+      eventType: 'save',
+      expTimeMillis: now + 60_000,
+      count: 1,
+      nonce: 'nonce-1',
+    });
+  });
+
+  test('should accept root keys in the format Google serves them', () => {
+    const event = verifyPassCallback(createCallback({ eventType: 'del' }), {
+      issuerId,
+      rootKeys: { keys: rootKeys },
+      now,
+    });
+
+    expect(event.eventType).toBe('del');
+  });
+
+  test('should reject tampered messages and untrusted keys', () => {
+    const callback = createCallback();
+    const tampered = { ...callback, signedMessage: callback.signedMessage.replace('save', 'del') };
+    const otherRoot = [{ ...rootKeys[0], keyValue: exportKey(createKey().publicKey) }];
+
+    expect(() => verifyPassCallback(tampered, { issuerId, rootKeys, now })).toThrow(
+      'Message signature is invalid',
+    );
+    expect(() =>
+      verifyPassCallback(createCallback(), { issuerId, rootKeys: otherRoot, now }),
+    ).toThrow('Intermediate signing key signature is invalid');
+    expect(() =>
+      verifyPassCallback(createCallback({}, 'another-issuer'), { issuerId, rootKeys, now }),
+    ).toThrow(PassCallbackVerificationError);
+  });
+
+  test('should reject expired messages, keys and malformed bodies', () => {
+    expect(() =>
+      verifyPassCallback(createCallback({ expTimeMillis: now - 1 }), { issuerId, rootKeys, now }),
+    ).toThrow('Signed message has expired');
+    expect(() =>
+      verifyPassCallback(createCallback(), { issuerId, rootKeys, now: now + 2 * 86_400_000 }),
+    ).toThrow('Intermediate signing key has expired');
+    expect(() =>
+      verifyPassCallback(createCallback(), {
+        issuerId,
+        rootKeys: [{ ...rootKeys[0], keyExpiration: String(now - 1) }],
+        now,
+      }),
+    ).toThrow('No unexpired ECv2SigningOnly root keys supplied');
+    expect(() => verifyPassCallback('not json', { issuerId, rootKeys, now })).toThrow(
+      'Malformed callback body',
+    );
+  });
+
+  test('should reject callbacks whose signed parts are not strings', () => {
+    const callback = createCallback();
+    const { intermediateSigningKey } = callback;
+    const malformed = [
+      { ...callback, signedMessage: { nonce: 'n1' } },
+      { ...callback, signature: 42 },
+      { ...callback, protocolVersion: ['ECv2SigningOnly'] },
+      { ...callback, intermediateSigningKey: { ...intermediateSigningKey, signedKey: {} } },
+      { ...callback, intermediateSigningKey: { signedKey: '{}', signatures: [{}] } },
+      { ...callback, intermediateSigningKey: null },
+    ];
+
+    malformed.forEach(body => {
+      const verifyBody = () =>
+        verifyPassCallback(body as unknown as SignedCallbackMessage, { issuerId, rootKeys, now });
+      expect(verifyBody).toThrow(PassCallbackVerificationError);
+      expect(verifyBody).toThrow('Malformed callback message');
+    });
+  });
+
+  test('should hand events to the handler and reject replayed nonces', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const events: PassCallbackEvent[] = [];
+    const handle = createPassCallbackHandler({
+      issuerId,
+      rootKeys,
+      onEvent: event => {
+        events.push(event);
+      },
+    });
+
+    await handle(JSON.stringify(createCallback()));
+    await expect(handle(JSON.stringify(createCallback()))).rejects.toThrow(
+      'Nonce "nonce-1" was already used',
+    );
+    await handle(createCallback({ nonce: 'nonce-2', eventType: 'del' }));
+
+    expect(events.map(event => `${event.eventType} ${event.nonce}`)).toEqual([
+      'save nonce-1',
+      'del nonce-2',
+    ]);
+  });
+
+  test('should accept a retry after onEvent fails', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const onEvent = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    const handle = createPassCallbackHandler({ issuerId, rootKeys, onEvent });
+
+    await expect(handle(createCallback())).rejects.toThrow('Database unavailable');
+    await expect(handle(createCallback())).resolves.toMatchObject({ nonce: 'nonce-1' });
+    await expect(handle(createCallback())).rejects.toThrow('Nonce "nonce-1" was already used');
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+
+  test('should configure the callback URL on the class', () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+      .setPassClass('Issuer')
+      .setCardTitle('Card')
+      .setHeaderInfo('Header')
+      .setCallbackUrl('http://example.com/wallet/callback');
+
+    expect(pass.getPassClass()?.callbackOptions).toEqual({
+      url: 'http://example.com/wallet/callback',
+    });
+    expect(pass.validate().diagnostics).toEqual([
+      {
+        path: 'class.callbackOptions.url',
+        severity: 'error',
+        message: 'Callback URLs must use https',
+      },
+    ]);
+  });
+});
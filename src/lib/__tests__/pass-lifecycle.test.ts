@@ -0,0 +1,66 @@
+import { GoogleGenericPass } from '../google-generic-pass';
+import {
+  PassStateTransitionError,
+  assertStateTransition,
+  canTransitionState,
+} from '../pass-lifecycle';
+
+describe('pass lifecycle', () => {
+  let pass: GoogleGenericPass;
+
+  beforeEach(() => {
+    pass = new GoogleGenericPass('issuer', 'pass', 'class');
+  });
+
+  test('should treat passes without a state as active', () => {
+    expect(canTransitionState(undefined, 'EXPIRED')).toBe(true);
+    expect(canTransitionState(undefined, 'ACTIVE')).toBe(true);
+    expect(pass.getStatePatch()).toEqual({ state: 'ACTIVE' });
+  });
+
+  test('should allow renewing expired and reactivating inactive passes', () => {
+    expect(canTransitionState('EXPIRED', 'ACTIVE')).toBe(true);
+    expect(canTransitionState('INACTIVE', 'ACTIVE')).toBe(true);
+    expect(canTransitionState('EXPIRED', 'COMPLETED')).toBe(false);
+  });
+
+  test('should treat COMPLETED as final', () => {
+    expect(() => assertStateTransition('COMPLETED', 'ACTIVE')).toThrow(
+      'Cannot move a pass from COMPLETED to ACTIVE, COMPLETED is final',
+    );
+    expect(() => assertStateTransition('COMPLETED', 'COMPLETED')).not.toThrow();
+  });
+
+  test('should expire a pass and emit the patch body', () => {
+    pass.setValidTimeInterval('2024-01-01T00:00:00Z').expire('2024-06-30T23:59:59Z');
+
+    expect(pass.getPassObject().state).toBe('EXPIRED');
+    expect(pass.getStatePatch()).toEqual({
+      state: 'EXPIRED',
+      validTimeInterval: {
+        start: { date: '2024-01-01T00:00:00Z' },
+        end: { date: '2024-06-30T23:59:59Z' },
+      },
+    });
+  });
+
+  test('should move between states with the convenience methods', () => {
+    pass.deactivate();
+    expect(pass.getPassObject().state).toBe('INACTIVE');
+
+    pass.activate().complete();
+    expect(pass.getStatePatch()).toEqual({ state: 'COMPLETED' });
+  });
+
+  test('should reject nonsensical transitions', () => {
+    pass.complete();
+
+    expect(() => pass.activate()).toThrow(PassStateTransitionError);
+    expect(() => pass.expire()).toThrow(
+      'Cannot move a pass from COMPLETED to EXPIRED, COMPLETED is final',
+    );
+    expect(() => new GoogleGenericPass('issuer', 'pass', 'class').expire().deactivate()).toThrow(
+      'Cannot move a pass from EXPIRED to INACTIVE, expected one of: ACTIVE',
+    );
+  });
+});
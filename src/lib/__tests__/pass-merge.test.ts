@@ -0,0 +1,129 @@
+import { GoogleGenericPass } from '../google-generic-pass';
+import {
+  MissingVariablesError,
+  findTemplateVariables,
+  mergePassSpec,
+  renderTemplate,
+} from '../pass-merge';
+import { GenericPassSpec } from '../pass-spec';
+
+describe('Pass merge', () => {
+  const design: GenericPassSpec = {
+    issuerId: 'issuer',
+    passId: 'member-{{ member.id }}',
+    classId: 'members',
+    class: { issuerName: 'Gym' },
+    object: {
+      cardTitle: 'Membership',
+      header: '{{ member.firstName }} {{ member.lastName | upper }}',
+      subheader: 'Member since {{ member.joined | date:long }}',
+      textModules: [
+        { id: 'points', header: 'Points', body: '{{ points | number }}' },
+        { id: 'balance', header: 'Balance', body: '{{ balance | currency:EUR }}' },
+      ],
+      barcode: { value: 'MEMBER-{{ member.id }}' },
+      grouping: { groupingId: 'family', sortIndex: 2 },
+    },
+  };
+  const data = {
+    member: { id: 42, firstName: 'Alex', lastName: 'Doe', joined: '2024-03-05' },
+    points: 12500,
+    balance: 19.5,
+  };
+
+  test('should merge a design with a data row into a pass', () => {
+    const pass = GoogleGenericPass.fromDesign(design, data);
+    const passObject = pass.getPassObject();
+
+    expect(passObject.id).toBe('issuer.member-42');
+    expect(passObject.header?.defaultValue.value).toBe('Alex DOE');
+    expect(passObject.subheader?.defaultValue.value).toBe('Member since March 5, 2024');
+    expect(passObject.textModulesData?.map(module => module.body)).toEqual(['12,500', '€19.50']);
+    expect(passObject.barcode?.value).toBe('MEMBER-42');
+    expect(passObject.groupingInfo).toEqual({ groupingId: 'family', sortIndex: 2 });
+  });
+
+  test('should list every missing variable with its field', () => {
+    const merge = () => mergePassSpec(design, { member: { id: 7 } });
+
+    expect(merge).toThrow(MissingVariablesError);
+    try {
+      merge();
+    } catch (error) {
+      expect((error as MissingVariablesError).variables).toEqual([
+        'member.firstName',
+        'member.lastName',
+        'member.joined',
+        'points',
+        'balance',
+      ]);
+      expect((error as Error).message).toContain('\n  object.textModules[0].body: points');
+    }
+  });
+
+  test('should format dates, numbers and currency for the locale', () => {
+    const options = { locale: 'de-DE', currency: 'EUR' };
+
+    expect(renderTemplate('{{ day | date }}', { day: '2024-12-24T23:30:00Z' }, options)).toBe(
+      '24.12.2024',
+    );
+    expect(renderTemplate('{{ day | date:iso }}', { day: new Date(0) })).toBe(
+      '1970-01-01T00:00:00.000Z',
+    );
+    expect(renderTemplate('{{ ratio | number:2 }}', { ratio: 1234.5 }, options)).toBe('1.234,50');
+    expect(renderTemplate('{{ price | currency }}', { price: '5' }, options)).toBe('5,00\u00a0€');
+    expect(
+      renderTemplate('{{ balance | currency }}', {
+        balance: { micros: '2500000', currencyCode: 'USD' },
+      }),
+    ).toBe('$2.50');
+  });
+
+  test('should fall back to defaults and keep escaped braces', () => {
+    expect(renderTemplate('Hi {{ nickname | default:"dear member" }}', {})).toBe(
+      'Hi dear member',
+    );
+    expect(renderTemplate('\\{{ name }} is {{ name }}', { name: 'Alex' })).toBe(
+      '{{ name }} is Alex',
+    );
+    expect(renderTemplate('{{ First Name }}', { 'First Name': 'Alex' })).toBe('Alex');
+    expect(renderTemplate('{{ visits[1].city }}', { visits: [{}, { city: 'Oslo' }] })).toBe(
+      'Oslo',
+    );
+  });
+
+  test('should only read values the data itself has', () => {
+    expect(() => renderTemplate('{{ constructor }}', {})).toThrow(MissingVariablesError);
+    expect(() => renderTemplate('{{ member.toString }}', { member: { name: 'Alex' } })).toThrow(
+      'Missing template variable(s): member.toString',
+    );
+    expect(renderTemplate('{{ visits.length }}', { visits: [1, 2] })).toBe('2');
+  });
+
+  test('should escape substituted values only', () => {
+    expect(
+      renderTemplate('<b>{{ name }}</b>', { name: 'Tom & "Jerry" <3' }, { escape: 'html' }),
+    ).toBe('<b>Tom &amp; &quot;Jerry&quot; &lt;3</b>');
+  });
+
+  test('should support custom helpers and report unusable values', () => {
+    const helpers = { initial: (value: unknown) => String(value).charAt(0) };
+
+    expect(renderTemplate('{{ name | initial }}.', { name: 'Alex' }, { helpers })).toBe('A.');
+    expect(() => renderTemplate('{{ name | title }}', { name: 'Alex' })).toThrow(
+      'Cannot render {{ name | title }}: Unknown template helper "title"',
+    );
+    expect(() => renderTemplate('{{ points | number }}', { points: 'lots' })).toThrow(
+      'Cannot format "lots" as a number',
+    );
+    expect(() => renderTemplate('{{ amount | currency }}', { amount: 5 })).toThrow(
+      'No currency code given',
+    );
+  });
+
+  test('should find the variables of a template', () => {
+    expect(
+      findTemplateVariables('{{ a.b }} {{ c | number:2 }} \\{{ d }} {{ a.b | upper }}'),
+    ).toEqual(['a.b', 'c']);
+  });
+});
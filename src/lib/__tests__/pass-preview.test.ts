@@ -0,0 +1,114 @@
+import { GoogleGenericPass } from '../google-generic-pass';
+import { resolveFieldPath } from '../field-paths';
+import { renderPassPreviewHtml } from '../pass-preview';
+
+describe('renderPassPreviewHtml', () => {
+  const createPass = (): GoogleGenericPass => {
+    const pass = new GoogleGenericPass('issuer', 'member-1', 'membership')
+      .setPassClass('Acme Gym')
+      .setBasicInfo('GENERIC_GYM_MEMBERSHIP', '#1a73e8')
+      .setLogo('https://example.com/logo.png', 'Acme logo')
+      .setCardTitle('Acme Gym', { 'de-DE': 'Acme Fitness' })
+      .setHeaderInfo('Ada Lovelace', 'Member')
+      .setHeroImage('https://example.com/hero.png')
+      .setBarcode('MEMBER-1', 'QR_CODE', 'MEMBER-1')
+      .addTextModule('tier', 'Gold', 'Tier')
+      .addTextModule('since', '2024', 'Member since')
+      .addLinks([{ id: 'site', uri: 'https://example.com', description: 'Website' }]);
+
+    return pass.setClassTemplateInfo([
+      pass.createTwoItemsRow(
+        "object.textModulesData['tier']",
+        "object.textModulesData['since']",
+      ),
+    ]);
+  };
+
+  test('should render the card and details view', () => {
+    const html = renderPassPreviewHtml(createPass());
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Acme Gym</title>');
+    expect(html).toContain('style="background-color: #1a73e8; color: #ffffff"');
+    expect(html).toContain('<img class="logo" src="https://example.com/logo.png" alt="Acme logo">');
+    expect(html).toContain('<div class="subheader">Member</div>');
+    expect(html).toContain('<div class="header">Ada Lovelace</div>');
+    expect(html).toContain('<img class="hero" src="https://example.com/hero.png"');
+    expect(html).toContain('<div class="barcode"><svg');
+    expect(html).toContain('<div class="alternate-text">MEMBER-1</div>');
+    expect(html).toContain('<h3>Member since</h3><p>2024</p>');
+    expect(html).toContain('<a href="https://example.com">Website</a>');
+  });
+
+  test('should fill template rows from field paths', () => {
+    const html = renderPassPreviewHtml(createPass());
+
+    expect(html).toContain(
+      '<div class="row"><div><div class="label">Tier</div><div class="value">Gold</div></div>' +
+        '<div><div class="label">Member since</div><div class="value">2024</div></div></div>',
+    );
+  });
+
+  test('should preview translations and escape content', () => {
+    const pass = createPass().setHeaderInfo('<Ada & "Bob">');
+    const html = renderPassPreviewHtml(pass, { language: 'de-DE' });
+
+    expect(html).toContain('<html lang="de-DE">');
+    expect(html).toContain('<div class="card-title">Acme Fitness</div>');
+    expect(html).toContain('&lt;Ada &amp; &quot;Bob&quot;&gt;');
+  });
+
+  test('should not link to or style with unsafe values', () => {
+    const pass = createPass()
+      .setBasicInfo('GENERIC_GYM_MEMBERSHIP', 'red; background-image: url(https://evil.test)')
+      .setLogo('javascript:alert(1)', 'Acme logo')
+      .addLinks([
+        { id: 'script', uri: 'javascript:alert(1)', description: 'Script' },
+        { id: 'call', uri: 'tel:+15550100', description: 'Call us' },
+      ]);
+    const html = renderPassPreviewHtml(pass);
+
+    expect(html).toContain('style="background-color: #4285f4; color: #ffffff"');
+    expect(html).toContain('<div class="logo">Acme logo</div>');
+    expect(html).toContain('<p>Script</p>');
+    expect(html).toContain('<p>Call us</p>');
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('evil.test');
+  });
+
+  test('should be deterministic', () => {
+    expect(renderPassPreviewHtml(createPass())).toBe(renderPassPreviewHtml(createPass()));
+  });
+});
+
+describe('resolveFieldPath', () => {
+  const pass = new GoogleGenericPass('issuer', 'pass', 'class')
+    .setPassClass('Issuer')
+    .addTextModule('points', '120', 'Points');
+
+  test('should resolve object and class paths', () => {
+    expect(resolveFieldPath("object.textModulesData['points']", pass.getPassObject())).toEqual(
+      expect.objectContaining({ body: '120' }),
+    );
+    expect(resolveFieldPath('class.issuerName', pass.getPassObject(), pass.getPassClass())).toBe(
+      'Issuer',
+    );
+  });
+
+  test('should resolve ids that contain dots', () => {
+    const passObject = new GoogleGenericPass('issuer', 'pass', 'class')
+      .addTextModule('v1.2', '3 visits', 'Visits')
+      .getPassObject();
+
+    expect(resolveFieldPath("object.textModulesData['v1.2'].body", passObject)).toBe('3 visits');
+    expect(resolveFieldPath("object.textModulesData['v1.2']x", passObject)).toBeUndefined();
+  });
+
+  test('should return undefined for unknown paths', () => {
+    expect(
+      resolveFieldPath("object.textModulesData['missing']", pass.getPassObject()),
+    ).toBeUndefined();
+    expect(resolveFieldPath('object.cardTitle.nope.deeper', pass.getPassObject())).toBeUndefined();
+    expect(resolveFieldPath('other.cardTitle', pass.getPassObject())).toBeUndefined();
+  });
+});
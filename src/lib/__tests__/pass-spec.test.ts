@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GoogleGenericPass } from '../google-generic-pass';
+import {
+  GENERIC_PASS_SPEC_SCHEMA,
+  GenericPassSpec,
+  PassSpecError,
+  validatePassSpec,
+} from '../pass-spec';
+
+describe('Pass specs', () => {
+  const spec: GenericPassSpec = {
+    issuerId: 'issuer',
+    passId: 'member-42',
+    classId: 'members',
+    class: {
+      issuerName: 'Gym',
+      reviewStatus: 'UNDER_REVIEW',
+      logo: { uri: 'https://example.com/logo.png', description: 'Logo' },
+      callbackUrl: 'https://example.com/callbacks',
+      template: {
+        cardRows: [
+          ["object.textModulesData['points']"],
+          ["object.textModulesData['points']", "object.textModulesData['tier']"],
+        ],
+        barcodeSection: { firstTop: "object.textModulesData['tier']" },
+        details: [["object.textModulesData['tier']", "object.textModulesData['points']"]],
+      },
+    },
+    object: {
+      genericType: 'GENERIC_GYM_MEMBERSHIP',
+      backgroundColor: '#2F2F31',
+      cardTitle: 'Membership',
+      header: 'Alex Doe',
+      textModules: [
+        { id: 'points', header: 'Points', body: '120' },
+        { id: 'tier', header: 'Tier', body: 'Gold' },
+      ],
+      imageModules: [{ id: 'map', uri: 'https://example.com/map.png' }],
+      barcode: { value: 'MEMBER-42', type: 'CODE_128' },
+      links: [{ id: 'site', uri: 'https://example.com', description: 'Website' }],
+      appLinks: {
+        android: { title: 'Gym app', targetUri: 'https://example.com/app' },
+        web: {
+          title: 'Member portal',
+          targetUri: 'https://example.com/portal',
+          logo: { uri: 'https://example.com/portal.png' },
+        },
+      },
+      grouping: { groupingId: 'family-7', sortIndex: 1 },
+      validity: { start: '2025-01-01T00:00:00Z', end: '2025-12-31T23:59:59Z' },
+    },
+  };
+
+  test('should build a pass from a spec', () => {
+    const pass = GoogleGenericPass.fromSpec(spec);
+    const passObject = pass.getPassObject();
+    const passClass = pass.getPassClass();
+
+    expect(passObject.id).toBe('issuer.member-42');
+    expect(passObject.genericType).toBe('GENERIC_GYM_MEMBERSHIP');
+    expect(passObject.header?.defaultValue.value).toBe('Alex Doe');
+    expect(passObject.textModulesData).toHaveLength(2);
+    expect(passObject.imageModulesData?.[0].mainImage.sourceUri.uri).toBe(
+      'https://example.com/map.png',
+    );
+    expect(passObject.barcode).toMatchObject({ type: 'CODE_128', value: 'MEMBER-42' });
+    expect(passObject.appLinkData?.androidAppLinkInfo?.appTarget.targetUri).toBe(
+      'https://example.com/app',
+    );
+    expect(passObject.appLinkData?.webAppLinkInfo?.appLogoImage?.sourceUri.uri).toBe(
+      'https://example.com/portal.png',
+    );
+    expect(passObject.groupingInfo).toEqual({ groupingId: 'family-7', sortIndex: 1 });
+    expect(passObject.validTimeInterval?.end?.date).toBe('2025-12-31T23:59:59Z');
+
+    expect(passClass?.reviewStatus).toBe('UNDER_REVIEW');
+    expect(passClass?.callbackOptions?.url).toBe('https://example.com/callbacks');
+    const rows = passClass?.classTemplateInfo?.cardTemplateOverride?.cardRowTemplateInfos;
+    expect(rows?.[0].oneItem).toBeDefined();
+    expect(rows?.[1].twoItems?.endItem?.firstValue).toEqual({
+      fields: [{ fieldPath: "object.textModulesData['tier']" }],
+    });
+    expect(
+      passClass?.classTemplateInfo?.detailsTemplateOverride?.detailsItemInfos[0].item.firstValue
+        ?.fields,
+    ).toHaveLength(2);
+    expect(pass.validate().valid).toBe(true);
+  });
+
+  test('should report schema errors with their paths', () => {
+    const invalid = {
+      ...spec,
+      passId: 42,
+      class: { reviewStatus: 'PENDING' },
+      object: {
+        ...spec.object,
+        colour: '#fff',
+        backgroundColor: 'red',
+        textModules: [{ header: 'Points', body: '120' }],
+        grouping: { groupingId: 'family-7', sortIndex: 1.5 },
+        validity: {},
+      },
+    };
+
+    expect(validatePassSpec(invalid).diagnostics).toEqual([
+      { path: 'passId', severity: 'error', message: 'Expected string, got number' },
+      { path: 'class.issuerName', severity: 'error', message: 'Required property is missing' },
+      {
+        path: 'class.reviewStatus',
+        severity: 'error',
+        message:
+          'Unsupported value "PENDING", expected one of: REVIEW_STATUS_UNSPECIFIED, ' +
+          'UNDER_REVIEW, APPROVED, REJECTED, DRAFT',
+      },
+      {
+        path: 'object.backgroundColor',
+        severity: 'error',
+        message: 'Value "red" does not match the pattern ^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$',
+      },
+      {
+        path: 'object.textModules[0].id',
+        severity: 'error',
+        message: 'Required property is missing',
+      },
+      {
+        path: 'object.grouping.sortIndex',
+        severity: 'error',
+        message: 'Expected integer, got number',
+      },
+      {
+        path: 'object.validity.start',
+        severity: 'error',
+        message: 'Required property is missing',
+      },
+      { path: 'object.colour', severity: 'error', message: 'Unknown property' },
+    ]);
+  });
+
+  test('should throw a PassSpecError listing every error', () => {
+    const invalid = { ...spec, class: undefined, object: { ...spec.object, header: undefined } };
+
+    expect(() => GoogleGenericPass.fromSpec(invalid as unknown as GenericPassSpec)).toThrow(
+      new PassSpecError([
+        { path: 'class', severity: 'error', message: 'Required property is missing' },
+        { path: 'object.header', severity: 'error', message: 'Required property is missing' },
+      ]),
+    );
+    expect(validatePassSpec('spec').diagnostics[0]).toEqual({
+      path: '(root)',
+      severity: 'error',
+      message: 'Expected object, got string',
+    });
+  });
+
+  test('should check template fields and card row sizes', () => {
+    const template = {
+      cardRows: [[], ['a', 'b', 'c', 'd'], [['a', 'b']]],
+      details: [42],
+    };
+    const result = validatePassSpec({ ...spec, class: { issuerName: 'Gym', template } });
+
+    expect(result.diagnostics.map(({ path, message }) => `${path}: ${message}`)).toEqual([
+      'class.template.cardRows[0]: Expected at least 1 item(s), got 0',
+      'class.template.cardRows[1]: Expected at most 3 item(s), got 4',
+      'class.template.details[0]: Expected string or array of string',
+    ]);
+  });
+
+  test('should publish the schema as a JSON file', async () => {
+    const file = path.join(__dirname, '../../../schema/generic-pass-spec.schema.json');
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual(
+      JSON.parse(JSON.stringify(GENERIC_PASS_SPEC_SCHEMA)),
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { GoogleGenericPass } from '../google-generic-pass';
+import { RotatingBarcodeObject } from '../pass-types';
+import {
+  generateRotatingBarcodeValue,
+  generateTotp,
+  generateTotpKey,
+  getTotpValueIndexes,
+  isValidTotpKey,
+  verifyRotatingBarcodeValue,
+} from '../rotating-barcode';
+
+// RFC 6238 appendix B SHA1 secret ("12345678901234567890")
+const RFC_KEY = '3132333435363738393031323334353637383930';
+
+describe('rotating barcodes', () => {
+  const barcode: RotatingBarcodeObject = {
+    type: 'QR_CODE',
+    valuePattern: 'TICKET-1|{totp_timestamp_seconds}|{totp_value_0}',
+    totpDetails: {
+      periodMillis: '30000',
+      algorithm: 'TOTP_SHA1',
+      parameters: [{ key: RFC_KEY, valueLength: 8 }],
+    },
+  };
+
+  test('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_KEY, 59_000)).toBe('94287082');
+    expect(generateTotp(RFC_KEY, 1_111_111_109_000)).toBe('07081804');
+    expect(generateTotp(RFC_KEY, 20_000_000_000_000)).toBe('65353130');
+    expect(generateTotp(RFC_KEY, 59_000, 30_000, 6)).toBe('287082');
+  });
+
+  test('should generate hex keys', () => {
+    const key = generateTotpKey();
+
+    expect(key).toHaveLength(40);
+    expect(isValidTotpKey(key)).toBe(true);
+    expect(isValidTotpKey('not-hex')).toBe(false);
+  });
+
+  test('should list the totp_value indexes of a pattern', () => {
+    expect(getTotpValueIndexes('{totp_value_0}-{totp_timestamp_millis}-{totp_value_1}')).toEqual([
+      0, 1,
+    ]);
+  });
+
+  test('should fill in the value pattern', () => {
+    expect(generateRotatingBarcodeValue(barcode, 59_000)).toBe('TICKET-1|59|94287082');
+  });
+
+  test('should verify a freshly generated value', () => {
+    const value = generateRotatingBarcodeValue(barcode, 1_000_000);
+
+    expect(verifyRotatingBarcodeValue(barcode, value, { now: 1_010_000 })).toEqual({
+      valid: true,
+      timeStep: 0,
+    });
+  });
+
+  test('should accept values within the drift window and reject older ones', () => {
+    const value = generateRotatingBarcodeValue(barcode, 1_000_000);
+
+    expect(verifyRotatingBarcodeValue(barcode, value, { now: 1_030_000 })).toEqual({
+      valid: true,
+      timeStep: -1,
+    });
+    expect(verifyRotatingBarcodeValue(barcode, value, { now: 1_090_000 })).toEqual({
+      valid: false,
+      reason: 'Value is outside the accepted time window',
+    });
+  });
+
+  test('should verify patterns without a timestamp by trying the window', () => {
+    const totpOnly = { ...barcode, valuePattern: '{totp_value_0}' };
+    const value = generateRotatingBarcodeValue(totpOnly, 1_000_000);
+
+    expect(verifyRotatingBarcodeValue(totpOnly, value, { now: 1_030_000 }).valid).toBe(true);
+    expect(verifyRotatingBarcodeValue(totpOnly, value, { now: 1_200_000 })).toEqual({
+      valid: false,
+      reason: 'TOTP value does not match',
+    });
+  });
+
+  test('should reject tampered or malformed values', () => {
+    expect(verifyRotatingBarcodeValue(barcode, 'TICKET-1|59|00000000', { now: 59_000 })).toEqual({
+      valid: false,
+      reason: 'TOTP value does not match',
+    });
+    expect(verifyRotatingBarcodeValue(barcode, 'TICKET-2|59|94287082', { now: 59_000 })).toEqual({
+      valid: false,
+      reason: 'Value does not match the barcode pattern',
+    });
+  });
+
+  test('should set a rotating barcode on a pass', () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class').setRotatingBarcode({
+      valuePattern: '{totp_value_0}',
+      keys: [RFC_KEY],
+      alternateText: 'Rotating code',
+    });
+
+    expect(pass.getPassObject().rotatingBarcode).toEqual({
+      type: 'QR_CODE',
+      valuePattern: '{totp_value_0}',
+      totpDetails: {
+        periodMillis: '30000',
+        algorithm: 'TOTP_SHA1',
+        parameters: [{ key: RFC_KEY, valueLength: 8 }],
+      },
+      alternateText: 'Rotating code',
+    });
+  });
+
+  test('should reject invalid rotating barcode input', () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class');
+
+    expect(() =>
+      pass.setRotatingBarcode({ valuePattern: '{totp_value_0}', keys: ['xyz'] }),
+    ).toThrow('TOTP key 0 must be hex (Base16) encoded');
+    expect(() =>
+      pass.setRotatingBarcode({ valuePattern: '{totp_value_1}', keys: [RFC_KEY] }),
+    ).toThrow('{totp_value_1} in the value pattern has no matching key');
+  });
+});
@@ -0,0 +1,70 @@
+import { GoogleGenericPass } from '../google-generic-pass';
+import { SaveJwtVerificationError, decodeSaveJwt, verifySaveJwt } from '../save-jwt';
+import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+
+describe('save JWT decoding', () => {
+  const serviceAccountEmail = 'test@example.com';
+  const createKeyPair = () =>
+    generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+  const { privateKey, publicKey } = createKeyPair();
+
+  const createToken = (): string =>
+    new GoogleGenericPass('issuer', 'member-1', 'membership')
+      .setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey)
+      .setPassClass('Test Issuer')
+      .setCardTitle('Member')
+      .setBarcode('MEMBER-1')
+      .generateJwt(['https://example.com']);
+
+  test('should verify a token and rebuild editable passes', () => {
+    const [pass, ...rest] = GoogleGenericPass.fromJwt(createToken(), publicKey, {
+      origins: ['https://example.com'],
+    });
+
+    expect(rest).toHaveLength(0);
+    expect(pass.getPassObject().id).toBe('issuer.member-1');
+    expect(pass.getPassObject().barcode?.value).toBe('MEMBER-1');
+    expect(pass.getPassClass()?.issuerName).toBe('Test Issuer');
+
+    const token = pass
+      .setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey)
+      .setCardTitle('Gold member')
+      .generateJwt();
+    const [resigned] = GoogleGenericPass.fromJwt(token, publicKey);
+    expect(resigned.getPassObject().cardTitle?.defaultValue.value).toBe('Gold member');
+  });
+
+  test('should reject tokens signed with another key', () => {
+    expect(() => GoogleGenericPass.fromJwt(createToken(), createKeyPair().publicKey)).toThrow(
+      SaveJwtVerificationError,
+    );
+  });
+
+  test('should check audience, type and origins', () => {
+    const sign = (claims: object) => jwt.sign(claims, privateKey, { algorithm: 'RS256' });
+    const base = { aud: 'google', typ: 'savetowallet', origins: [], payload: {} };
+
+    expect(() => verifySaveJwt(sign({ ...base, aud: 'other' }), publicKey)).toThrow(
+      'Unexpected audience "other", expected "google"',
+    );
+    expect(() => verifySaveJwt(sign({ ...base, typ: 'other' }), publicKey)).toThrow(
+      'Unexpected type "other", expected "savetowallet"',
+    );
+    expect(() =>
+      verifySaveJwt(createToken(), publicKey, { origins: ['https://other.com'] }),
+    ).toThrow('Token does not allow origins: https://other.com');
+  });
+
+  test('should decode without verifying', () => {
+    const token = createToken();
+
+    expect(decodeSaveJwt(token).iss).toBe(serviceAccountEmail);
+    expect(GoogleGenericPass.decodeJwt(token)[0].getPassObject().classId).toBe('issuer.membership');
+    expect(() => decodeSaveJwt('not-a-jwt')).toThrow('Token is not a save-to-wallet JWT');
+  });
+});
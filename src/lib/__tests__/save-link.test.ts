@@ -0,0 +1,47 @@
+import {
+  DEFAULT_MAX_SAVE_LINK_LENGTH,
+  SaveLinkTooLongError,
+  buildSaveLink,
+  isSaveLinkWithinLimit,
+} from '../save-link';
+
+describe('save links', () => {
+  const longToken = 'x'.repeat(DEFAULT_MAX_SAVE_LINK_LENGTH);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should append the token to the save URL', () => {
+    expect(buildSaveLink('token')).toBe('https://pay.google.com/gp/v/save/token');
+    expect(isSaveLinkWithinLimit(buildSaveLink('token'))).toBe(true);
+  });
+
+  test('should warn about long links by default', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const link = buildSaveLink(longToken);
+
+    expect(link.endsWith(longToken)).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('exceeding the limit of 1800'));
+  });
+
+  test('should fail or stay silent when configured', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(() => buildSaveLink('token', { maxLength: 20, onTooLong: 'error' })).toThrow(
+      SaveLinkTooLongError,
+    );
+    expect(() => buildSaveLink(longToken, { onTooLong: 'ignore' })).not.toThrow();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('should report the link length and limit on the error', () => {
+    try {
+      buildSaveLink('token', { maxLength: 20, onTooLong: 'error' });
+    } catch (error) {
+      expect(error).toMatchObject({ name: 'SaveLinkTooLongError', length: 38, maxLength: 20 });
+    }
+    expect.assertions(1);
+  });
+});
@@ -0,0 +1,139 @@
+import * as jwt from 'jsonwebtoken';
+import { GoogleGenericPass } from '../google-generic-pass';
+import { GoogleWalletPassBundle } from '../google-wallet-pass-bundle';
+import { Worker } from 'worker_threads';
+import {
+  PemSigner,
+  Signer,
+  WorkerSigner,
+  createTestSigner,
+  signJwt,
+  signJwtAsync,
+} from '../signer';
+
+describe('signers', () => {
+  const serviceAccountEmail = 'test@example.com';
+  const { signer, publicKey, privateKey } = createTestSigner({ keyId: 'key-1' });
+
+  const createPass = (): GoogleGenericPass =>
+    new GoogleGenericPass('issuer', 'pass', 'class').setPassClass('Issuer').setCardTitle('Card');
+
+  test('should produce the same tokens as jsonwebtoken with a PEM key', () => {
+    const claims = { iss: serviceAccountEmail, aud: 'google', iat: 1700000000 };
+
+    expect(signJwt(claims, new PemSigner(privateKey))).toBe(
+      jwt.sign(claims, privateKey, { algorithm: 'RS256' }),
+    );
+  });
+
+  test('should write the key id to the JWT header', () => {
+    const token = signJwt({ aud: 'google' }, signer);
+
+    expect(jwt.decode(token, { complete: true })?.header).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+      kid: 'key-1',
+    });
+    expect(jwt.verify(token, publicKey, { algorithms: ['RS256'] })).toMatchObject({
+      aud: 'google',
+    });
+  });
+
+  test('should sign passes through a custom signer', () => {
+    const pass = createPass().setSigner(serviceAccountEmail, signer);
+
+    const claims = jwt.verify(pass.generateJwt(), publicKey) as jwt.JwtPayload;
+
+    expect(claims.iss).toBe(serviceAccountEmail);
+    expect(claims.payload.genericObjects[0].id).toBe('issuer.pass');
+  });
+
+  test('should sign asynchronously, e.g. through a remote KMS', async () => {
+    const remote = createTestSigner({ async: true });
+    const pass = createPass().setSigner(serviceAccountEmail, remote.signer);
+
+    const link = await pass.generateAddToWalletLinkAsync(['https://example.com']);
+    const claims = jwt.verify(link.split('/').pop() as string, remote.publicKey) as jwt.JwtPayload;
+
+    expect(claims.origins).toEqual(['https://example.com']);
+    expect(() => pass.generateJwt()).toThrow(
+      'Signer is asynchronous, use the async signing methods instead',
+    );
+    await expect(signJwtAsync({ aud: 'google' }, remote.signer)).resolves.toContain('.');
+  });
+
+  test('should not leave a rejected signature unhandled when signing synchronously', async () => {
+    const onUnhandledRejection = jest.fn();
+    process.on('unhandledRejection', onUnhandledRejection);
+    try {
+      const failing: Signer = { sign: () => Promise.reject(new Error('KMS unavailable')) };
+
+      expect(() => signJwt({ aud: 'google' }, failing)).toThrow('Signer is asynchronous');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onUnhandledRejection).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', onUnhandledRejection);
+    }
+  });
+
+  test('should keep the PEM credentials working with the async methods', async () => {
+    const pass = createPass().setServiceAccountCredentialsFromKeyData(
+      serviceAccountEmail,
+      privateKey,
+    );
+
+    const token = await pass.generateJwtAsync();
+
+    expect(jwt.verify(token, publicKey)).toMatchObject({ iss: serviceAccountEmail });
+  });
+
+  test('should sign bundles and clones with the template signer', async () => {
+    const template = createPass().setSigner(serviceAccountEmail, signer);
+    const bundle = new GoogleWalletPassBundle([template.clone('a'), template.clone('b')]);
+
+    const claims = jwt.verify(await bundle.generateJwtAsync(), publicKey) as jwt.JwtPayload;
+
+    expect(claims.payload.genericObjects).toHaveLength(2);
+  });
+
+  test('should require credentials or a signer', async () => {
+    await expect(createPass().generateJwtAsync()).rejects.toThrow(
+      'Service account credentials not set',
+    );
+  });
+
+  test('should sign on worker threads', async () => {
+    const workerSigner = new WorkerSigner(privateKey, { threads: 2, keyId: 'key-1' });
+    try {
+      const tokens = await Promise.all(
+        [1, 2, 3].map(iat => signJwtAsync({ aud: 'google', iat }, workerSigner)),
+      );
+
+      expect(tokens).toEqual(
+        [1, 2, 3].map(iat => signJwt({ aud: 'google', iat }, new PemSigner(privateKey, 'key-1'))),
+      );
+    } finally {
+      await workerSigner.close();
+    }
+    await expect(workerSigner.sign(Buffer.from('data'))).rejects.toThrow(
+      'WorkerSigner has been closed',
+    );
+  });
+
+  test('should stop using worker threads that exit', async () => {
+    const workerSigner = new WorkerSigner(privateKey, { threads: 2 });
+    const [first, second] = (workerSigner as unknown as { workers: { worker: Worker }[] }).workers;
+    try {
+      await first.worker.terminate();
+      await expect(workerSigner.sign(Buffer.from('data'))).resolves.toBeInstanceOf(Buffer);
+
+      await second.worker.terminate();
+      await expect(workerSigner.sign(Buffer.from('data'))).rejects.toThrow(
+        'All signing workers stopped',
+      );
+    } finally {
+      await workerSigner.close();
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  GoogleGenericPass,
+  GoogleGenericPassClass,
+  GoogleGenericPassObject,
+} from '../google-generic-pass';
+import { createTestSigner } from '../signer';
+import { PassValidationError, validateGenericPass } from '../validation';
+
+describe('validateGenericPass', () => {
+  const createValidPass = (): GoogleGenericPass =>
+    new GoogleGenericPass('issuer', 'pass', 'class')
+      .setPassClass('Issuer')
+      .setCardTitle('Card')
+      .setHeaderInfo('Header');
+
+  const pathsOf = (pass: GoogleGenericPass, severity = 'error'): string[] =>
+    pass
+      .validate()
+      .diagnostics.filter(diagnostic => diagnostic.severity === severity)
+      .map(diagnostic => diagnostic.path);
+
+  test('should accept a minimal valid pass', () => {
+    const result = createValidPass().validate();
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('should report missing required fields', () => {
+    const pass = new GoogleGenericPass('issuer', 'pass', 'class').setPassClass('');
+
+    expect(pathsOf(pass)).toEqual(['object.cardTitle', 'object.header', 'class.issuerName']);
+  });
+
+  test('should report empty localized strings without substituting placeholders', () => {
+    const pass = createValidPass()
+      .setHeaderInfo('Header', '')
+      .setCardTitle('Card', { 'es-ES': ' ' })
+      .addTextModule('info', '');
+
+    expect(pathsOf(pass)).toEqual([
+      'object.cardTitle.translatedValues[0].value',
+      'object.subheader.defaultValue.value',
+      'object.textModulesData[0].body',
+    ]);
+    expect(pass.getPassObject().subheader?.defaultValue.value).toBe('');
+  });
+
+  test('should report duplicate module ids', () => {
+    const pass = createValidPass()
+      .addTextModule('info', 'First')
+      .addTextModule('info', 'Second')
+      .addAdditionalInfo('default_info', 'Label', 'Value');
+
+    expect(pathsOf(pass)).toEqual(['object.textModulesData[1].id', 'object.additionalInfo[1].id']);
+  });
+
+  test('should report invalid hex colors and malformed URIs', () => {
+    const pass = createValidPass()
+      .setBasicInfo('GENERIC_TYPE_UNSPECIFIED', 'blue')
+      .setLogo('not a uri')
+      .setHeroImage('http://example.com/hero.png')
+      .addLinks([{ id: 'web', uri: 'example.com', description: 'Website' }]);
+
+    expect(pathsOf(pass)).toEqual([
+      'object.hexBackgroundColor',
+      'object.logo.sourceUri.uri',
+      'object.linksModuleData.uris[0].uri',
+    ]);
+    expect(pathsOf(pass, 'warning')).toEqual(['object.heroImage.sourceUri.uri']);
+  });
+
+  test('should only accept web, mail and phone links', () => {
+    const pass = createValidPass().addLinks([
+      { id: 'web', uri: 'https://example.com', description: 'Website' },
+      { id: 'mail', uri: 'mailto:help@example.com', description: 'Email' },
+      { id: 'phone', uri: 'tel:+15550100', description: 'Call' },
+      { id: 'script', uri: 'javascript:alert(1)', description: 'Click me' },
+    ]);
+
+    expect(pass.validate().diagnostics).toEqual([
+      {
+        path: 'object.linksModuleData.uris[3].uri',
+        severity: 'error',
+        message:
+          'Unsupported URI scheme "javascript:", expected one of: http:, https:, mailto:, tel:',
+      },
+    ]);
+  });
+
+  test('should only accept web URIs as web app link targets', () => {
+    const pass = createValidPass()
+      .addAndroidAppLink('App', 'market://details?id=com.example')
+      .addWebAppLink('Portal', 'javascript:alert(1)')
+      .setSigner('wallet@example.com', createTestSigner().signer);
+
+    expect(pass.validate().diagnostics).toEqual([
+      {
+        path: 'object.appLinkData.webAppLinkInfo.appTarget.targetUri',
+        severity: 'error',
+        message: 'Unsupported URI scheme "javascript:", expected one of: http:, https:',
+      },
+    ]);
+    expect(() => pass.generateJwt([], { strict: true })).toThrow(PassValidationError);
+  });
+
+  test('should report unsupported enum values', () => {
+    // Values that bypass the typed setters, e.g. data restored from storage
+    const pass = GoogleGenericPass.fromGoogleResource(
+      {
+        ...createValidPass().getPassObject(),
+        state: 'VALID',
+        genericType: 'LOYALTY_CARD',
+        barcode: { type: 'QRCODE', value: '123', renderEncoding: 'UTF8' },
+      } as unknown as GoogleGenericPassObject,
+      {
+        id: 'issuer.class',
+        issuerName: 'Issuer',
+        reviewStatus: 'PENDING',
+      } as unknown as GoogleGenericPassClass,
+    );
+
+    expect(pathsOf(pass)).toEqual([
+      'object.state',
+      'object.genericType',
+      'object.barcode.type',
+      'object.barcode.renderEncoding',
+      'class.reviewStatus',
+    ]);
+  });
+
+  test('should report invalid rotating barcode keys and placeholders', () => {
+    const pass = createValidPass();
+    pass.getPassObject().rotatingBarcode = {
+      type: 'QR_CODE',
+      valuePattern: '{totp_value_0}-{totp_value_1}',
+      totpDetails: {
+        periodMillis: '30000',
+        algorithm: 'TOTP_SHA1',
+        parameters: [{ key: 'not-hex', valueLength: 8 }],
+      },
+    };
+
+    expect(pathsOf(pass)).toEqual([
+      'object.rotatingBarcode.totpDetails.parameters[0].key',
+      'object.rotatingBarcode.valuePattern',
+    ]);
+  });
+
+  test('should report invalid messages', () => {
+    const pass = createValidPass()
+      .addMessage({ id: 'a', body: 'Hi', start: '2024-05-07', end: '2024-05-01' })
+      .addMessage({ id: 'b', body: '', end: 'next week' });
+
+    expect(pathsOf(pass)).toEqual([
+      'object.messages[0].displayInterval.end.date',
+      'object.messages[1].body',
+      'object.messages[1].displayInterval.end.date',
+    ]);
+  });
+
+  test('should report a class id mismatch', () => {
+    const passObject = createValidPass().getPassObject();
+    const result = validateGenericPass(passObject, { id: 'issuer.other', issuerName: 'Issuer' });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics[0].path).toBe('object.classId');
+  });
+
+  test('should list error paths in PassValidationError', () => {
+    const error = new PassValidationError([
+      { path: 'object.header', severity: 'error', message: 'Required field is missing or empty' },
+      { path: 'object.logo', severity: 'warning', message: 'Ignored' },
+    ]);
+
+    expect(error.message).toContain('1 error(s)');
+    expect(error.message).toContain('object.header');
+    expect(error.message).not.toContain('object.logo');
+  });
+});
@@ -0,0 +1,88 @@
+import bwipjs from 'bwip-js';
+import type { BarcodeType } from './enums';
+import type { BarcodeObject } from './pass-types';
+
+/**
+ * bwip-js symbology for every barcode type that can be rendered locally
+ */
+const RENDERABLE_BARCODES: Partial<Record<BarcodeType, string>> = {
+  QR_CODE: 'qrcode',
+  AZTEC: 'azteccode',
+  PDF_417: 'pdf417',
+  CODE_128: 'code128',
+  CODE_39: 'code39',
+  EAN_13: 'ean13',
+  UPC_A: 'upca',
+  DATA_MATRIX: 'datamatrix',
+};
+
+export const RENDERABLE_BARCODE_TYPES = Object.keys(RENDERABLE_BARCODES) as BarcodeType[];
+
+export interface BarcodeRenderOptions {
+  scale?: number; // Pixels per module, defaults to 3
+  height?: number; // Bar height of linear barcodes in millimetres
+  padding?: number; // Quiet zone around the symbol in modules
+  includeText?: boolean; // Print alternateText below the symbol, defaults to true when it is set
+  color?: string; // Bar color as hex without "#", defaults to 000000
+  backgroundColor?: string; // Background color as hex without "#", defaults to transparent
+}
+
+/**
+ * Render a barcode as a standalone SVG document
+ */
+export function renderBarcodeSvg(
+  barcode: BarcodeObject,
+  options: BarcodeRenderOptions = {},
+): string {
+  return bwipjs.toSVG(buildRenderOptions(barcode, options));
+}
+
+/**
+ * Render a barcode as a PNG image
+ */
+export function renderBarcodePng(
+  barcode: BarcodeObject,
+  options: BarcodeRenderOptions = {},
+): Promise<Buffer> {
+  return bwipjs.toBuffer(buildRenderOptions(barcode, options));
+}
+
+/**
+ * Helper to map a Wallet barcode onto bwip-js render options
+ */
+function buildRenderOptions(
+  barcode: BarcodeObject,
+  options: BarcodeRenderOptions,
+): bwipjs.RenderOptions {
+  const bcid = RENDERABLE_BARCODES[barcode.type];
+  if (!bcid) {
+    const supported = RENDERABLE_BARCODE_TYPES.join(', ');
+    throw new Error(`Cannot render ${barcode.type} barcodes, expected one of: ${supported}`);
+  }
+  if (!barcode.value) {
+    throw new Error('Cannot render a barcode without a value');
+  }
+
+  const includeText = options.includeText ?? Boolean(barcode.alternateText);
+
+  return {
+    bcid,
+    // Encode UTF-8 as a byte string so the symbol carries the same bytes Google renders
+    text:
+      barcode.renderEncoding === 'UTF_8'
+        ? Buffer.from(barcode.value, 'utf8').toString('latin1')
+        : barcode.value,
+    scale: options.scale ?? 3,
+    ...(options.height !== undefined ? { height: options.height } : {}),
+    ...(options.padding !== undefined ? { padding: options.padding } : {}),
+    ...(options.color ? { barcolor: options.color } : {}),
+    ...(options.backgroundColor ? { backgroundcolor: options.backgroundColor } : {}),
+    ...(includeText
+      ? {
+          includetext: true,
+          textxalign: 'center' as const,
+          ...(barcode.alternateText ? { alttext: barcode.alternateText } : {}),
+        }
+      : {}),
+  };
+}
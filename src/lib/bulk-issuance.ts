@@ -0,0 +1,317 @@
+import { once } from 'events';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { Readable } from 'stream';
+import { GoogleGenericPass } from './google-generic-pass';
+import type { AnyWalletPass } from './google-wallet-pass-bundle';
+import type { ServiceAccountCredentials } from './google-wallet-client';
+import type { MergeOptions } from './pass-merge';
+import type { GenericPassSpec } from './pass-spec';
+import type { SaveLinkOptions } from './save-link';
+import { WorkerSigner } from './signer';
+
+export type BulkInputFormat = 'csv' | 'ndjson';
+
+/**
+ * One input row; rows that cannot be parsed carry an error instead of data
+ */
+export interface BulkRow {
+  row: number; // 1-based, not counting the CSV header
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * One line of the results file
+ */
+export interface BulkIssueResult {
+  row: number;
+  key?: string; // Holder key, used to skip issued rows when resuming
+  objectId?: string;
+  link?: string;
+  error?: string;
+}
+
+export interface BulkIssueSummary {
+  issued: number;
+  failed: number;
+  skipped: number; // Rows issued by an earlier run
+}
+
+export interface BulkIssueOptions {
+  input: string | Readable; // CSV or NDJSON file path, or a stream of it
+  format?: BulkInputFormat; // Defaults to the input file's extension
+  output: string; // NDJSON results file, appended to when resuming
+  mapRow?: (data: Record<string, unknown>, row: number) => AnyWalletPass | Promise<AnyWalletPass>;
+  design?: GenericPassSpec; // Alternative to mapRow, merged with each row
+  mergeOptions?: MergeOptions;
+  key?: string | ((data: Record<string, unknown>) => unknown); // Holder key, defaults to "id"
+  credentials?: ServiceAccountCredentials; // Set on every pass; required for worker threads
+  origins?: string[];
+  linkOptions?: SaveLinkOptions; // onTooLong defaults to 'error', failing the row
+  concurrency?: number; // Rows in flight at once, defaults to 10
+  workerThreads?: number; // Sign on this many worker threads instead of the event loop
+  resume?: boolean; // Skip rows the results file already has links for, defaults to true
+  onResult?: (result: BulkIssueResult) => void;
+}
+
+const DEFAULT_CONCURRENCY = 10;
+
+/**
+ * Issue save links for every row of a CSV or NDJSON file. Rows are streamed rather than
+ * loaded at once, at most `concurrency` are in flight, and a failing row is recorded in the
+ * results file without stopping the others. Rerunning after a crash skips the rows that
+ * already have links.
+ */
+export async function issuePassesInBulk(options: BulkIssueOptions): Promise<BulkIssueSummary> {
+  const { mapRow, design } = options;
+  if (!mapRow && !design) {
+    throw new Error('Either mapRow or design is required');
+  }
+  if (options.workerThreads && !options.credentials) {
+    throw new Error('Worker threads need the credentials option');
+  }
+
+  const resume = options.resume !== false;
+  const issuedKeys = resume ? await readIssuedKeys(options.output) : new Set<string>();
+  const output = createWriteStream(options.output, { flags: resume ? 'a' : 'w' });
+  const signer =
+    options.workerThreads && options.credentials
+      ? new WorkerSigner(options.credentials.privateKey, {
+          threads: options.workerThreads,
+          keyId: options.credentials.privateKeyId,
+        })
+      : undefined;
+
+  const summary: BulkIssueSummary = { issued: 0, failed: 0, skipped: 0 };
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const inFlight = new Set<Promise<void>>();
+
+  const issue = async ({ row, data, error }: BulkRow, key?: string): Promise<void> => {
+    // Yield first, so a large batch never starves the event loop
+    await new Promise(resolve => setImmediate(resolve));
+
+    let result: BulkIssueResult;
+    let objectId: string | undefined;
+    try {
+      if (error || !data) throw new Error(error);
+      if (key === undefined) throw new Error('Row has no holder key');
+
+      const pass = mapRow
+        ? await mapRow(data, row)
+        : GoogleGenericPass.fromDesign(design as GenericPassSpec, data, options.mergeOptions);
+      objectId = pass.getPassObject().id;
+
+      const { credentials } = options;
+      if (signer && credentials) {
+        pass.setSigner(credentials.serviceAccountEmail, signer);
+      } else if (credentials) {
+        const { serviceAccountEmail, privateKey, privateKeyId } = credentials;
+        pass.setServiceAccountCredentialsFromKeyData(serviceAccountEmail, privateKey, privateKeyId);
+      }
+
+      const link = await pass.generateAddToWalletLinkAsync(options.origins, {
+        onTooLong: 'error',
+        ...options.linkOptions,
+      });
+      result = { row, key, objectId, link };
+      summary.issued++;
+    } catch (issueError) {
+      const message = issueError instanceof Error ? issueError.message : String(issueError);
+      result = { row, key, ...(objectId ? { objectId } : {}), error: message };
+      summary.failed++;
+    }
+
+    if (!output.write(`${JSON.stringify(result)}\n`)) {
+      await once(output, 'drain');
+    }
+    options.onResult?.(result);
+  };
+
+  try {
+    for await (const bulkRow of readBulkRows(options.input, options.format)) {
+      const key = bulkRow.data ? holderKey(bulkRow.data, options.key) : undefined;
+      if (key !== undefined && issuedKeys.has(key)) {
+        summary.skipped++;
+        continue;
+      }
+
+      const task: Promise<void> = issue(bulkRow, key).finally(() => inFlight.delete(task));
+      inFlight.add(task);
+      if (inFlight.size >= concurrency) {
+        await Promise.race(inFlight);
+      }
+    }
+    await Promise.all(inFlight);
+  } finally {
+    await Promise.allSettled(inFlight);
+    output.end();
+    await once(output, 'finish');
+    await signer?.close();
+  }
+
+  return summary;
+}
+
+/**
+ * Stream the rows of a CSV (with a header row) or NDJSON file. Rows that cannot be parsed
+ * are yielded with an error so they can be reported alongside the others.
+ */
+export async function* readBulkRows(
+  input: string | Readable,
+  format?: BulkInputFormat,
+): AsyncGenerator<BulkRow> {
+  const inputFormat = format || inferFormat(input);
+  const stream = typeof input === 'string' ? createReadStream(input) : input;
+  stream.setEncoding('utf8');
+
+  if (inputFormat === 'ndjson') {
+    let row = 0;
+    for await (const line of readline.createInterface({ input: stream, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+      row++;
+      try {
+        const data = JSON.parse(line);
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+          yield { row, error: 'Expected a JSON object' };
+        } else {
+          yield { row, data };
+        }
+      } catch (error) {
+        yield { row, error: `Malformed JSON: ${(error as Error).message}` };
+      }
+    }
+    return;
+  }
+
+  let header: string[] | undefined;
+  let row = 0;
+  for await (const record of parseCsv(stream)) {
+    if (record.length === 1 && record[0] === '') continue;
+    if (!header) {
+      header = record.map((name, index) => (index === 0 ? name.replace(/^\uFEFF/, '') : name));
+      continue;
+    }
+
+    row++;
+    if (record.length !== header.length) {
+      yield { row, error: `Row has ${record.length} values, expected ${header.length}` };
+    } else {
+      const data: Record<string, unknown> = {};
+      header.forEach((name, index) => (data[name] = record[index]));
+      yield { row, data };
+    }
+  }
+}
+
+/**
+ * Helper to pick the input format from the file extension
+ */
+function inferFormat(input: string | Readable): BulkInputFormat {
+  const extension = typeof input === 'string' ? path.extname(input).toLowerCase() : '';
+  if (extension === '.csv') return 'csv';
+  if (extension === '.ndjson' || extension === '.jsonl') return 'ndjson';
+  throw new Error('Cannot tell the input format, pass format: "csv" or "ndjson"');
+}
+
+/**
+ * Helper to read a row's holder key
+ */
+function holderKey(
+  data: Record<string, unknown>,
+  key: BulkIssueOptions['key'] = 'id',
+): string | undefined {
+  const value = typeof key === 'function' ? key(data) : data[key];
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Helper to collect the keys an earlier run issued links for. A line cut off by a crash is
+ * ignored, and the file is made to end with a newline so new results start on their own line.
+ */
+async function readIssuedKeys(file: string): Promise<Set<string>> {
+  const keys = new Set<string>();
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return keys;
+    throw error;
+  }
+
+  contents.split('\n').forEach(line => {
+    try {
+      const result = JSON.parse(line) as BulkIssueResult;
+      if (result.key !== undefined && result.link) keys.add(result.key);
+    } catch {
+      // Partially written line
+    }
+  });
+  if (contents && !contents.endsWith('\n')) {
+    await fs.appendFile(file, '\n');
+  }
+  return keys;
+}
+
+/**
+ * Helper to parse RFC 4180 CSV incrementally: quoted fields may hold commas, newlines and
+ * doubled quotes, and records may span chunks
+ */
+async function* parseCsv(chunks: AsyncIterable<string>): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let quoteSeen = false; // A quote inside a quoted field: escaped quote or closing quote
+  let fieldQuoted = false;
+
+  for await (const chunk of chunks) {
+    const records: string[][] = [];
+
+    for (const char of chunk) {
+      if (quoted) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          quoted = false; // Handle the character after the closing quote below
+        } else {
+          if (char === '"') quoteSeen = true;
+          else field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '' && !fieldQuoted) {
+        quoted = true;
+        fieldQuoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+        fieldQuoted = false;
+      } else if (char === '\n') {
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+        fieldQuoted = false;
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+
+    for (const parsed of records) {
+      yield parsed;
+    }
+  }
+
+  if (quoted && !quoteSeen) {
+    throw new Error('Unterminated quoted field in CSV input');
+  }
+  if (field !== '' || fieldQuoted || record.length) {
+    record.push(field);
+    yield record;
+  }
+}
@@ -0,0 +1,187 @@
+import type { DateFormat, TransitOption } from './enums';
+import { collectTemplateFieldPaths } from './field-paths';
+import {
+  BarcodeSectionDetail,
+  CardRowTemplateInfo,
+  ClassTemplateInfo,
+  FieldSelector,
+  TemplateItem,
+  cloneJson,
+} from './pass-types';
+
+/**
+ * Field path of a text module, e.g. "object.textModulesData['points']"
+ */
+export function textModuleField(moduleId: string, source: 'object' | 'class' = 'object'): string {
+  return `${source}.textModulesData['${moduleId}']`;
+}
+
+/**
+ * Field path of an image module, e.g. "object.imageModulesData['map']"
+ */
+export function imageModuleField(moduleId: string, source: 'object' | 'class' = 'object'): string {
+  return `${source}.imageModulesData['${moduleId}']`;
+}
+
+/**
+ * Field path of a link, e.g. "object.linksModuleData.uris['website']"
+ */
+export function linkField(linkId: string, source: 'object' | 'class' = 'object'): string {
+  return `${source}.linksModuleData.uris['${linkId}']`;
+}
+
+/**
+ * A field path, several fallback paths (the first present one is shown), or a full selector
+ */
+export type FieldSelectorInput = string | string[] | FieldSelector;
+
+/**
+ * A single field selector, or a full template item with two values or a predefined item
+ */
+export type TemplateItemInput = FieldSelectorInput | TemplateItem;
+
+export interface BarcodeSectionInput {
+  firstTop?: FieldSelectorInput;
+  firstBottom?: FieldSelectorInput;
+  secondTop?: FieldSelectorInput;
+}
+
+/**
+ * Convert a field path, or several fallback paths, into a field selector
+ */
+export function fieldSelector(input: FieldSelectorInput, dateFormat?: DateFormat): FieldSelector {
+  if (typeof input !== 'string' && !Array.isArray(input)) return input;
+
+  const paths = typeof input === 'string' ? [input] : input;
+  return {
+    fields: paths.map(fieldPath => ({ fieldPath, ...(dateFormat ? { dateFormat } : {}) })),
+  };
+}
+
+/**
+ * Convert a field selector input, or a full item, into a template item
+ */
+export function templateItem(input: TemplateItemInput): TemplateItem {
+  return isTemplateItem(input) ? input : { firstValue: fieldSelector(input) };
+}
+
+/**
+ * Helper to tell full template items apart from field selectors
+ */
+function isTemplateItem(input: TemplateItemInput): input is TemplateItem {
+  return typeof input === 'object' && !Array.isArray(input) && !('fields' in input);
+}
+
+/**
+ * Builds every section of a class's `classTemplateInfo`: card rows, barcode section,
+ * details view and list view.
+ */
+export class ClassTemplateBuilder {
+  private templateInfo: ClassTemplateInfo = {};
+
+  /**
+   * Add a card row showing one item across the full width
+   */
+  addOneItemRow(item: TemplateItemInput): this {
+    return this.addCardRow({ oneItem: { item: templateItem(item) } });
+  }
+
+  /**
+   * Add a card row with a start and end item
+   */
+  addTwoItemsRow(startItem?: TemplateItemInput, endItem?: TemplateItemInput): this {
+    return this.addCardRow({
+      twoItems: {
+        ...(startItem ? { startItem: templateItem(startItem) } : {}),
+        ...(endItem ? { endItem: templateItem(endItem) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Add a card row with a start, middle and end item
+   */
+  addThreeItemsRow(
+    startItem?: TemplateItemInput,
+    middleItem?: TemplateItemInput,
+    endItem?: TemplateItemInput,
+  ): this {
+    return this.addCardRow({
+      threeItems: {
+        ...(startItem ? { startItem: templateItem(startItem) } : {}),
+        ...(middleItem ? { middleItem: templateItem(middleItem) } : {}),
+        ...(endItem ? { endItem: templateItem(endItem) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Add a prebuilt card row
+   */
+  addCardRow(row: CardRowTemplateInfo): this {
+    const override = this.templateInfo.cardTemplateOverride || { cardRowTemplateInfos: [] };
+    override.cardRowTemplateInfos = [...(override.cardRowTemplateInfos || []), row];
+    this.templateInfo.cardTemplateOverride = override;
+    return this;
+  }
+
+  /**
+   * Set the fields shown above and below the barcode
+   */
+  setBarcodeSection(section: BarcodeSectionInput): this {
+    const detail = (input?: FieldSelectorInput): BarcodeSectionDetail | undefined =>
+      input ? { fieldSelector: fieldSelector(input) } : undefined;
+
+    this.templateInfo.cardBarcodeSectionDetails = {
+      ...(section.firstTop ? { firstTopDetail: detail(section.firstTop) } : {}),
+      ...(section.firstBottom ? { firstBottomDetail: detail(section.firstBottom) } : {}),
+      ...(section.secondTop ? { secondTopDetail: detail(section.secondTop) } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Add an item to the details view, shown in the order added
+   */
+  addDetailsItem(item: TemplateItemInput): this {
+    const override = this.templateInfo.detailsTemplateOverride || { detailsItemInfos: [] };
+    override.detailsItemInfos = [...override.detailsItemInfos, { item: templateItem(item) }];
+    this.templateInfo.detailsTemplateOverride = override;
+    return this;
+  }
+
+  /**
+   * Set the fields shown for the pass in the Wallet list view
+   */
+  setListTemplate(
+    firstRow?: FieldSelectorInput | { transitOption: TransitOption },
+    secondRow?: FieldSelectorInput,
+  ): this {
+    this.templateInfo.listTemplateOverride = {
+      ...(firstRow
+        ? {
+            firstRowOption:
+              typeof firstRow === 'object' && 'transitOption' in firstRow
+                ? { transitOption: firstRow.transitOption }
+                : { fieldOption: fieldSelector(firstRow) },
+          }
+        : {}),
+      ...(secondRow ? { secondRowOption: fieldSelector(secondRow) } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Every field path referenced by the template
+   */
+  getFieldPaths(): string[] {
+    return collectTemplateFieldPaths(this.templateInfo).map(reference => reference.fieldPath);
+  }
+
+  /**
+   * Get a copy of the template info to store on a class
+   */
+  build(): ClassTemplateInfo {
+    return cloneJson(this.templateInfo);
+  }
+}
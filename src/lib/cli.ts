@@ -0,0 +1,300 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { issuePassesInBulk } from './bulk-issuance';
+import { loadServiceAccountCredentials } from './credentials';
+import { GoogleGenericPass } from './google-generic-pass';
+import { GENERIC_PASS_SPEC_SCHEMA, GenericPassSpec, PassSpecError } from './pass-spec';
+import { decodeSaveJwt, verifySaveJwt } from './save-jwt';
+import { SAVE_TO_WALLET_URL } from './save-link';
+import type { ValidationResult } from './validation';
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+interface CliArgs {
+  command?: string;
+  positionals: string[];
+  options: {
+    credentials?: string;
+    origin: string[];
+    'public-key'?: string;
+    out?: string;
+    data?: string;
+    key?: string;
+    concurrency?: string;
+    workers?: string;
+    link?: boolean;
+    strict?: boolean;
+    restart?: boolean;
+    help?: boolean;
+  };
+}
+
+const VALUE_OPTIONS = [
+  'credentials',
+  'origin',
+  'public-key',
+  'out',
+  'data',
+  'key',
+  'concurrency',
+  'workers',
+];
+const FLAG_OPTIONS = ['link', 'strict', 'restart', 'help'];
+
+const USAGE = `Usage: wallet-pass <command> [options]
+
+Commands:
+  build <spec>          Build a pass from a JSON or YAML spec and print its JSON
+  validate <spec>       Validate a pass, exiting with status 1 when it has errors
+  payload <spec>        Print the wallet payload that would be signed
+  sign <spec>           Sign a pass into a JWT, or a save link with --link
+  decode <jwt|link>     Print the claims of a save JWT, verified with --public-key
+  schema                Print the JSON Schema of pass specs
+  bulk <design>         Issue a save link per --data row into the --out results file
+
+Options:
+  --credentials <file>  Service account key file, defaults to GOOGLE_APPLICATION_CREDENTIALS
+                        or GOOGLE_WALLET_CREDENTIALS_JSON
+  --origin <url>        Origin allowed to show the save button (repeatable)
+  --link                Print an "Add to Google Wallet" link instead of the JWT
+  --strict              Refuse to sign passes with validation errors
+  --public-key <file>   PEM public key or certificate to verify decoded JWTs with
+  --out <file>          Write the output to a file instead of stdout
+  --data <file>         CSV or NDJSON rows to merge with the design (bulk)
+  --key <column>        Column holding each row's holder key, defaults to id (bulk)
+  --concurrency <n>     Rows in flight at once, defaults to 10 (bulk)
+  --workers <n>         Sign on worker threads (bulk)
+  --restart             Issue every row again instead of resuming (bulk)
+  -h, --help            Show this help`;
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  env: process.env,
+};
+
+/**
+ * Run the wallet-pass command line tool, resolving to the process exit code
+ */
+export async function runCli(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.options.help || !args.command) {
+      io.stdout(`${USAGE}\n`);
+      return args.command || args.options.help ? 0 : 2;
+    }
+
+    if (args.command === 'schema') {
+      await writeOutput(JSON.stringify(GENERIC_PASS_SPEC_SCHEMA, null, 2), args, io);
+      return 0;
+    }
+
+    const [input] = args.positionals;
+    if (!input) {
+      throw new CliUsageError(`Missing argument for "${args.command}"`);
+    }
+
+    switch (args.command) {
+      case 'build': {
+        const pass = await loadPass(input);
+        await writeOutput(JSON.stringify(pass.toJSON(), null, 2), args, io);
+        return 0;
+      }
+      case 'validate': {
+        let result: ValidationResult;
+        try {
+          result = (await loadPass(input)).validate();
+        } catch (error) {
+          if (!(error instanceof PassSpecError)) throw error;
+          result = { valid: false, diagnostics: error.diagnostics };
+        }
+        const lines = result.diagnostics.map(
+          diagnostic => `${diagnostic.severity}: ${diagnostic.path}: ${diagnostic.message}`,
+        );
+        lines.push(result.valid ? 'Pass is valid' : 'Pass is invalid');
+        await writeOutput(lines.join('\n'), args, io);
+        return result.valid ? 0 : 1;
+      }
+      case 'payload': {
+        const pass = await loadPass(input);
+        pass.prepareForSigning({ strict: args.options.strict });
+        await writeOutput(JSON.stringify(pass.getWalletPayload(), null, 2), args, io);
+        return 0;
+      }
+      case 'sign': {
+        const pass = await loadPass(input);
+        const credentials = await loadServiceAccountCredentials({
+          keyFile: args.options.credentials,
+          env: io.env,
+        });
+        pass.setServiceAccountCredentialsFromKeyData(
+          credentials.serviceAccountEmail,
+          credentials.privateKey,
+          credentials.privateKeyId,
+        );
+
+        const { origin, strict, link } = args.options;
+        const output = link
+          ? pass.generateAddToWalletLink(origin, { strict, onTooLong: 'ignore' })
+          : pass.generateJwt(origin, { strict });
+        await writeOutput(output, args, io);
+        return 0;
+      }
+      case 'bulk': {
+        const { data, out } = args.options;
+        if (!data || !out) {
+          throw new CliUsageError('bulk needs --data and --out');
+        }
+        const credentials = await loadServiceAccountCredentials({
+          keyFile: args.options.credentials,
+          env: io.env,
+        });
+
+        const summary = await issuePassesInBulk({
+          input: data,
+          output: out,
+          design: (await loadSpec(input)) as GenericPassSpec,
+          key: args.options.key,
+          credentials,
+          origins: args.options.origin,
+          linkOptions: { strict: args.options.strict },
+          concurrency: numberOption(args, 'concurrency'),
+          workerThreads: numberOption(args, 'workers'),
+          resume: !args.options.restart,
+        });
+        io.stdout(
+          `Issued ${summary.issued}, failed ${summary.failed}, ` +
+            `skipped ${summary.skipped} issued earlier\n`,
+        );
+        return summary.failed ? 1 : 0;
+      }
+      case 'decode': {
+        const token = input.startsWith(SAVE_TO_WALLET_URL)
+          ? input.slice(SAVE_TO_WALLET_URL.length)
+          : input;
+        const publicKeyFile = args.options['public-key'];
+        const claims = publicKeyFile
+          ? verifySaveJwt(token, await fs.readFile(publicKeyFile, 'utf8'), {
+              origins: args.options.origin,
+            })
+          : decodeSaveJwt(token);
+        await writeOutput(JSON.stringify(claims, null, 2), args, io);
+        return 0;
+      }
+      default:
+        throw new CliUsageError(`Unknown command "${args.command}"`);
+    }
+  } catch (error) {
+    io.stderr(`wallet-pass: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof CliUsageError) {
+      io.stderr('Run "wallet-pass --help" for usage.\n');
+      return 2;
+    }
+    return 1;
+  }
+}
+
+/**
+ * Helper to split the command line into a command, positionals and options
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { positionals: [], options: { origin: [] } };
+  const options = args.options as Record<string, unknown>;
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+      if (FLAG_OPTIONS.includes(name)) {
+        options[name] = true;
+      } else if (VALUE_OPTIONS.includes(name)) {
+        const value = inlineValue ?? argv[++index];
+        if (value === undefined) {
+          throw new CliUsageError(`Option --${name} needs a value`);
+        }
+        if (name === 'origin') {
+          args.options.origin.push(value);
+        } else {
+          options[name] = value;
+        }
+      } else {
+        throw new CliUsageError(`Unknown option --${name}`);
+      }
+    } else if (args.command === undefined) {
+      args.command = arg;
+    } else {
+      args.positionals.push(arg);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Helper to read a positive integer option
+ */
+function numberOption(args: CliArgs, name: 'concurrency' | 'workers'): number | undefined {
+  const value = args.options[name];
+  if (value === undefined) return undefined;
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw new CliUsageError(`Option --${name} must be a positive integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * Helper to load a pass from a JSON or YAML spec, or from toJSON output
+ */
+async function loadPass(file: string): Promise<GoogleGenericPass> {
+  const spec = await loadSpec(file);
+
+  // Passes saved with toJSON carry a format version
+  return 'version' in spec
+    ? GoogleGenericPass.fromJSON(spec as Parameters<typeof GoogleGenericPass.fromJSON>[0])
+    : GoogleGenericPass.fromSpec(spec as GenericPassSpec);
+}
+
+/**
+ * Helper to parse a JSON or YAML file holding a spec
+ */
+async function loadSpec(file: string): Promise<object> {
+  const contents = await fs.readFile(file, 'utf8');
+  const extension = path.extname(file).toLowerCase();
+
+  let spec: unknown;
+  try {
+    const isYaml = extension === '.yaml' || extension === '.yml';
+    spec = isYaml ? YAML.parse(contents) : JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Cannot parse ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!spec || typeof spec !== 'object') {
+    throw new Error(`${file} does not contain a pass spec`);
+  }
+  return spec;
+}
+
+/**
+ * Helper to print output, or write it to the --out file
+ */
+async function writeOutput(output: string, args: CliArgs, io: CliIo): Promise<void> {
+  if (args.options.out) {
+    await fs.writeFile(args.options.out, `${output}\n`);
+  } else {
+    io.stdout(`${output}\n`);
+  }
+}
@@ -0,0 +1,218 @@
+import { createPrivateKey } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ServiceAccountCredentials } from './google-wallet-client';
+
+/** Path to a service account key file, as used by Application Default Credentials */
+export const CREDENTIALS_FILE_ENV = 'GOOGLE_APPLICATION_CREDENTIALS';
+
+/** Service account key file contents, as JSON or base64 encoded JSON */
+export const CREDENTIALS_JSON_ENV = 'GOOGLE_WALLET_CREDENTIALS_JSON';
+
+export type CredentialsErrorCode =
+  | 'NOT_FOUND'
+  | 'MISSING_FILE'
+  | 'UNREADABLE_FILE'
+  | 'MALFORMED_JSON'
+  | 'MISSING_FIELD'
+  | 'WRONG_KEY_TYPE';
+
+export interface LoadCredentialsOptions {
+  keyFile?: string; // Path to a service account JSON key file
+  json?: string | Record<string, unknown>; // Key file contents
+  env?: Record<string, string | undefined>; // Environment to read, defaults to process.env
+  cache?: boolean; // Reuse credentials parsed earlier from the same source, defaults to true
+}
+
+export class CredentialsError extends Error {
+  readonly code: CredentialsErrorCode;
+
+  constructor(code: CredentialsErrorCode, message: string) {
+    super(message);
+    this.name = 'CredentialsError';
+    this.code = code;
+  }
+}
+
+const credentialsCache = new Map<string, Promise<ServiceAccountCredentials>>();
+
+/**
+ * Load service account credentials without blocking. Explicit sources win; otherwise the
+ * GOOGLE_WALLET_CREDENTIALS_JSON variable, the GOOGLE_APPLICATION_CREDENTIALS file and the
+ * gcloud Application Default Credentials file are tried in that order.
+ */
+export function loadServiceAccountCredentials(
+  options: LoadCredentialsOptions = {},
+): Promise<ServiceAccountCredentials> {
+  const env = options.env || process.env;
+  const source = resolveSource(options, env);
+
+  if (options.cache === false) {
+    return readSource(source);
+  }
+
+  let credentials = credentialsCache.get(source.cacheKey);
+  if (!credentials) {
+    credentials = readSource(source);
+    credentialsCache.set(source.cacheKey, credentials);
+    // Failed loads are retried next time, e.g. once the file has been created
+    credentials.catch(() => credentialsCache.delete(source.cacheKey));
+  }
+  return credentials;
+}
+
+/**
+ * Forget every cached credential, e.g. after rotating keys
+ */
+export function clearCredentialsCache(): void {
+  credentialsCache.clear();
+}
+
+/**
+ * Parse service account key file contents, checking for the fields and key type JWT
+ * signing needs
+ */
+export function parseServiceAccountKey(
+  json: string | Record<string, unknown>,
+  sourceName = 'credentials JSON',
+): ServiceAccountCredentials {
+  let key: Record<string, unknown>;
+  try {
+    key = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch (error) {
+    throw new CredentialsError(
+      'MALFORMED_JSON',
+      `Malformed JSON in ${sourceName}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!key || typeof key !== 'object' || Array.isArray(key)) {
+    throw new CredentialsError('MALFORMED_JSON', `Expected a JSON object in ${sourceName}`);
+  }
+
+  if (key.type !== undefined && key.type !== 'service_account') {
+    throw new CredentialsError(
+      'WRONG_KEY_TYPE',
+      `Expected a service_account key in ${sourceName} but got "${key.type}". ` +
+        'User credentials cannot sign Wallet JWTs.',
+    );
+  }
+  (['client_email', 'private_key'] as const).forEach(field => {
+    if (typeof key[field] !== 'string' || !key[field]) {
+      throw new CredentialsError('MISSING_FIELD', `No ${field} found in ${sourceName}`);
+    }
+  });
+
+  const privateKey = key.private_key as string;
+  let keyType: string | undefined;
+  try {
+    keyType = createPrivateKey(privateKey).asymmetricKeyType;
+  } catch {
+    throw new CredentialsError('WRONG_KEY_TYPE', `private_key in ${sourceName} is not a PEM key`);
+  }
+  if (keyType !== 'rsa') {
+    throw new CredentialsError(
+      'WRONG_KEY_TYPE',
+      `private_key in ${sourceName} is a ${keyType} key, expected an RSA key for RS256`,
+    );
+  }
+
+  return {
+    serviceAccountEmail: key.client_email as string,
+    privateKey,
+    ...(typeof key.private_key_id === 'string' ? { privateKeyId: key.private_key_id } : {}),
+    ...(typeof key.project_id === 'string' ? { projectId: key.project_id } : {}),
+  };
+}
+
+interface CredentialsSource {
+  cacheKey: string;
+  name: string;
+  file?: string;
+  json?: string | Record<string, unknown>;
+  fallback?: boolean; // Nothing was configured, so a missing file means no credentials at all
+}
+
+/**
+ * Helper to pick the first configured credentials source
+ */
+function resolveSource(
+  options: LoadCredentialsOptions,
+  env: Record<string, string | undefined>,
+): CredentialsSource {
+  if (options.json !== undefined) {
+    const json = options.json;
+    const cacheKey = `json:${typeof json === 'string' ? json : JSON.stringify(json)}`;
+    return { cacheKey, name: 'credentials JSON', json };
+  }
+  if (options.keyFile) {
+    return fileSource(options.keyFile);
+  }
+
+  const envJson = env[CREDENTIALS_JSON_ENV];
+  if (envJson) {
+    // Accept base64 too, which survives environments that mangle newlines and quotes
+    const json = envJson.trim().startsWith('{')
+      ? envJson
+      : Buffer.from(envJson, 'base64').toString('utf8');
+    return { cacheKey: `json:${json}`, name: CREDENTIALS_JSON_ENV, json };
+  }
+  if (env[CREDENTIALS_FILE_ENV]) {
+    return fileSource(env[CREDENTIALS_FILE_ENV] as string, CREDENTIALS_FILE_ENV);
+  }
+
+  // The file written by `gcloud auth application-default login`
+  const configDir =
+    env.CLOUDSDK_CONFIG ||
+    (process.platform === 'win32' && env.APPDATA
+      ? path.join(env.APPDATA, 'gcloud')
+      : path.join(env.HOME || os.homedir(), '.config', 'gcloud'));
+  return {
+    ...fileSource(path.join(configDir, 'application_default_credentials.json')),
+    name: 'the Application Default Credentials file',
+    fallback: true,
+  };
+}
+
+/**
+ * Helper to describe a key file source
+ */
+function fileSource(file: string, variable?: string): CredentialsSource {
+  const resolved = path.resolve(file);
+  return {
+    cacheKey: `file:${resolved}`,
+    name: variable ? `${resolved} (from ${variable})` : resolved,
+    file: resolved,
+  };
+}
+
+/**
+ * Helper to read and parse a credentials source
+ */
+async function readSource(source: CredentialsSource): Promise<ServiceAccountCredentials> {
+  if (!source.file) {
+    return parseServiceAccountKey(source.json as string | Record<string, unknown>, source.name);
+  }
+
+  let contents: string;
+  try {
+    contents = await fs.readFile(source.file, 'utf8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' && source.fallback) {
+      throw new CredentialsError(
+        'NOT_FOUND',
+        `No credentials found: set ${CREDENTIALS_FILE_ENV} or ${CREDENTIALS_JSON_ENV}`,
+      );
+    }
+    if (code === 'ENOENT') {
+      throw new CredentialsError('MISSING_FILE', `Credentials file not found: ${source.name}`);
+    }
+    throw new CredentialsError(
+      'UNREADABLE_FILE',
+      `Cannot read credentials file ${source.name}: ${(error as Error).message}`,
+    );
+  }
+
+  return parseServiceAccountKey(contents, source.name);
+}
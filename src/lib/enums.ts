@@ -0,0 +1,154 @@
+// Enumerated values accepted by the Google Wallet API.
+// Each list is exported both as a runtime array (for validation) and as a literal union type.
+
+export const GENERIC_TYPES = [
+  'GENERIC_TYPE_UNSPECIFIED',
+  'GENERIC_SEASON_PASS',
+  'GENERIC_UTILITY_BILLS',
+  'GENERIC_PARKING_PASS',
+  'GENERIC_VOUCHER',
+  'GENERIC_GYM_MEMBERSHIP',
+  'GENERIC_LIBRARY_MEMBERSHIP',
+  'GENERIC_RESERVATIONS',
+  'GENERIC_AUTO_INSURANCE',
+  'GENERIC_HOME_INSURANCE',
+  'GENERIC_ENTRY_TICKET',
+  'GENERIC_RECEIPT',
+  'GENERIC_LOYALTY_CARD',
+  'GENERIC_OTHER',
+] as const;
+export type GenericType = typeof GENERIC_TYPES[number];
+
+export const BARCODE_TYPES = [
+  'BARCODE_TYPE_UNSPECIFIED',
+  'AZTEC',
+  'CODE_39',
+  'CODE_128',
+  'CODABAR',
+  'DATA_MATRIX',
+  'EAN_8',
+  'EAN_13',
+  'ITF_14',
+  'PDF_417',
+  'QR_CODE',
+  'UPC_A',
+  'TEXT_ONLY',
+] as const;
+export type BarcodeType = typeof BARCODE_TYPES[number];
+
+export const BARCODE_RENDER_ENCODINGS = ['RENDER_ENCODING_UNSPECIFIED', 'UTF_8'] as const;
+export type BarcodeRenderEncoding = typeof BARCODE_RENDER_ENCODINGS[number];
+
+export const REVIEW_STATUSES = [
+  'REVIEW_STATUS_UNSPECIFIED',
+  'UNDER_REVIEW',
+  'APPROVED',
+  'REJECTED',
+  'DRAFT',
+] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const OBJECT_STATES = [
+  'STATE_UNSPECIFIED',
+  'ACTIVE',
+  'COMPLETED',
+  'EXPIRED',
+  'INACTIVE',
+] as const;
+export type ObjectState = typeof OBJECT_STATES[number];
+
+export const FLIGHT_STATUSES = [
+  'FLIGHT_STATUS_UNSPECIFIED',
+  'SCHEDULED',
+  'ACTIVE',
+  'LANDED',
+  'CANCELLED',
+  'REDIRECTED',
+  'DIVERTED',
+] as const;
+export type FlightStatus = typeof FLIGHT_STATUSES[number];
+
+export const BOARDING_DOORS = ['BOARDING_DOOR_UNSPECIFIED', 'FRONT', 'BACK'] as const;
+export type BoardingDoor = typeof BOARDING_DOORS[number];
+
+export const TRANSIT_TYPES = [
+  'TRANSIT_TYPE_UNSPECIFIED',
+  'BUS',
+  'RAIL',
+  'TRAM',
+  'FERRY',
+  'OTHER',
+] as const;
+export type TransitType = typeof TRANSIT_TYPES[number];
+
+export const TRIP_TYPES = ['TRIP_TYPE_UNSPECIFIED', 'ROUND_TRIP', 'ONE_WAY'] as const;
+export type TripType = typeof TRIP_TYPES[number];
+
+export const PASSENGER_TYPES = [
+  'PASSENGER_TYPE_UNSPECIFIED',
+  'SINGLE_PASSENGER',
+  'MULTIPLE_PASSENGERS',
+] as const;
+export type PassengerType = typeof PASSENGER_TYPES[number];
+
+export const CONCESSION_CATEGORIES = [
+  'CONCESSION_CATEGORY_UNSPECIFIED',
+  'ADULT',
+  'CHILD',
+  'SENIOR',
+] as const;
+export type ConcessionCategory = typeof CONCESSION_CATEGORIES[number];
+
+export const FARE_CLASSES = ['FARE_CLASS_UNSPECIFIED', 'ECONOMY', 'FIRST', 'BUSINESS'] as const;
+export type FareClass = typeof FARE_CLASSES[number];
+
+export const DATE_FORMATS = [
+  'DATE_FORMAT_UNSPECIFIED',
+  'DATE_TIME',
+  'DATE_ONLY',
+  'TIME_ONLY',
+  'DATE_TIME_YEAR',
+  'DATE_YEAR',
+  'YEAR_MONTH',
+  'YEAR_MONTH_DAY',
+] as const;
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export const PREDEFINED_ITEMS = [
+  'PREDEFINED_ITEM_UNSPECIFIED',
+  'FREQUENT_FLYER_PROGRAM_NAME_AND_NUMBER',
+  'FLIGHT_NUMBER_AND_OPERATING_FLIGHT_NUMBER',
+] as const;
+export type PredefinedItem = typeof PREDEFINED_ITEMS[number];
+
+export const TRANSIT_OPTIONS = [
+  'TRANSIT_OPTION_UNSPECIFIED',
+  'ORIGIN_AND_DESTINATION_NAMES',
+  'ORIGIN_AND_DESTINATION_CODES',
+  'ORIGIN_NAME',
+] as const;
+export type TransitOption = typeof TRANSIT_OPTIONS[number];
+
+export const TOTP_ALGORITHMS = ['TOTP_ALGORITHM_UNSPECIFIED', 'TOTP_SHA1'] as const;
+export type TotpAlgorithm = typeof TOTP_ALGORITHMS[number];
+
+export const MESSAGE_TYPES = [
+  'MESSAGE_TYPE_UNSPECIFIED',
+  'TEXT',
+  'EXPIRATION_NOTIFICATION',
+  'TEXT_AND_NOTIFY',
+] as const;
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+/**
+ * Throw when a value passed by an untyped caller is not in the allowed list
+ */
+export function assertEnumValue<T extends string>(
+  name: string,
+  value: string,
+  allowed: readonly T[],
+): asserts value is T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${name} "${value}", expected one of: ${allowed.join(', ')}`);
+  }
+}
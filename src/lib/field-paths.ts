@@ -0,0 +1,75 @@
+import type { BasePassClass, BasePassObject } from './pass-types';
+
+// Template field paths, e.g. "object.textModulesData['points']" or "class.issuerName".
+// Bracketed ids are matched as a whole, so they may contain dots.
+const SEGMENT_PATTERN = /\.([A-Za-z_$][\w$]*)(?:\['([^']*)'\])?/y;
+
+/**
+ * Resolve a template field path against a pass object and class. Bracketed ids select the
+ * array entry with that id. Returns undefined when the path does not point at a value.
+ */
+export function resolveFieldPath(
+  fieldPath: string,
+  passObject: BasePassObject,
+  passClass?: BasePassClass,
+): unknown {
+  const segments = splitFieldPath(fieldPath);
+  if (!segments) return undefined;
+
+  const [[root], ...rest] = segments;
+  let current: unknown = root === 'object' ? passObject : root === 'class' ? passClass : undefined;
+
+  for (const [name, id] of rest) {
+    if (current === null || typeof current !== 'object') return undefined;
+
+    current = (current as Record<string, unknown>)[name];
+    if (id !== undefined) {
+      current = Array.isArray(current)
+        ? current.find(entry => (entry as { id?: unknown })?.id === id)
+        : undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Every field path referenced by a class template, with the location of the reference
+ */
+export function collectTemplateFieldPaths(
+  templateInfo: unknown,
+  location = 'class.classTemplateInfo',
+): { path: string; fieldPath: string }[] {
+  if (!templateInfo || typeof templateInfo !== 'object') return [];
+
+  const entries: [string, unknown][] = Array.isArray(templateInfo)
+    ? templateInfo.map((entry, index) => [`[${index}]`, entry])
+    : Object.entries(templateInfo).map(([key, value]) => [`.${key}`, value]);
+
+  return entries.reduce<{ path: string; fieldPath: string }[]>(
+    (references, [key, value]) =>
+      key === '.fieldPath' && typeof value === 'string'
+        ? [...references, { path: `${location}.fieldPath`, fieldPath: value }]
+        : [...references, ...collectTemplateFieldPaths(value, `${location}${key}`)],
+    [],
+  );
+}
+
+/**
+ * Helper to split a field path into property names and optional bracketed ids, or undefined
+ * when the path is malformed
+ */
+function splitFieldPath(fieldPath: string): [string, string?][] | undefined {
+  const dot = fieldPath.indexOf('.');
+  const rootEnd = dot === -1 ? fieldPath.length : dot;
+  const segments: [string, string?][] = [[fieldPath.slice(0, rootEnd)]];
+
+  const pattern = new RegExp(SEGMENT_PATTERN);
+  pattern.lastIndex = rootEnd;
+  while (pattern.lastIndex < fieldPath.length) {
+    const match = pattern.exec(fieldPath);
+    if (!match) return undefined;
+    segments.push([match[1], match[2]]);
+  }
+  return segments;
+}
@@ -0,0 +1,249 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import { Translations, createLocalizedObject } from './localization';
+import {
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  LocalizedObject,
+  Money,
+  SerializedWalletPass,
+  toMoney,
+} from './pass-types';
+import { ValidationResult, validateEventTicketPass } from './validation';
+
+// Google Event Ticket Schema Interfaces
+export interface EventVenue {
+  name?: LocalizedObject;
+  address?: LocalizedObject;
+}
+
+export interface EventDateTime {
+  doorsOpen?: string; // ISO 8601 date/time
+  start?: string; // ISO 8601 date/time
+  end?: string; // ISO 8601 date/time
+}
+
+export interface EventSeat {
+  seat?: LocalizedObject;
+  row?: LocalizedObject;
+  section?: LocalizedObject;
+  gate?: LocalizedObject;
+}
+
+export interface EventReservationInfo {
+  confirmationCode?: string;
+}
+
+export interface EventTicketClass extends BasePassClass {
+  eventName: LocalizedObject;
+  eventId?: string;
+  logo?: ImageObject;
+  venue?: EventVenue;
+  dateTime?: EventDateTime;
+  finePrint?: LocalizedObject;
+  seatLabel?: string; // SEAT
+  rowLabel?: string; // ROW
+  sectionLabel?: string; // SECTION, THEATER
+  gateLabel?: string; // GATE, DOOR, ENTRANCE
+}
+
+export interface EventTicketObject extends BasePassObject {
+  seatInfo?: EventSeat;
+  reservationInfo?: EventReservationInfo;
+  ticketHolderName?: string;
+  ticketNumber?: string;
+  ticketType?: LocalizedObject;
+  faceValue?: Money;
+}
+
+export interface EventSeatInput {
+  seat?: string;
+  row?: string;
+  section?: string;
+  gate?: string;
+}
+
+export class GoogleEventTicketPass extends GoogleWalletPass<EventTicketObject, EventTicketClass> {
+  readonly vertical = 'eventTicket';
+
+  constructor(issuerId: string, passId: string, classId: string) {
+    super({
+      id: `${issuerId}.${passId}`,
+      classId: `${issuerId}.${classId}`,
+    });
+  }
+
+  /**
+   * Restore a pass from toJSON output (or its JSON string)
+   */
+  static fromJSON(
+    json: string | SerializedWalletPass<EventTicketObject, EventTicketClass>,
+  ): GoogleEventTicketPass {
+    const state = typeof json === 'string' ? JSON.parse(json) : json;
+    const pass = new GoogleEventTicketPass(state.issuerId, state.passId, state.classId);
+    return pass.restoreJSON(state);
+  }
+
+  /**
+   * Define the event ticket class (template)
+   */
+  setPassClass(issuerName: string, eventName: string, translations?: Translations): this {
+    this.passClass = {
+      id: this.passObject.classId,
+      issuerName,
+      eventName: createLocalizedObject(eventName, this.defaultLanguage, translations),
+    };
+    return this;
+  }
+
+  /**
+   * Set the issuer's identifier for the event
+   */
+  setEventId(eventId: string): this {
+    this.requirePassClass('setting the event id').eventId = eventId;
+    return this;
+  }
+
+  /**
+   * Add logo to the event ticket class
+   */
+  setLogo(imageUrl: string, description?: string, translations?: Translations): this {
+    this.requirePassClass('adding a logo').logo = this.createImageObject(
+      imageUrl,
+      description,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set the venue name and address
+   */
+  setVenue(
+    name: string,
+    address?: string,
+    translations: { name?: Translations; address?: Translations } = {},
+  ): this {
+    const passClass = this.requirePassClass('setting the venue');
+
+    passClass.venue = {
+      name: createLocalizedObject(name, this.defaultLanguage, translations.name),
+    };
+
+    if (address !== undefined) {
+      passClass.venue.address = createLocalizedObject(
+        address,
+        this.defaultLanguage,
+        translations.address,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Set the event date and time (ISO 8601 strings)
+   */
+  setEventDateTime(start: string, end?: string, doorsOpen?: string): this {
+    this.requirePassClass('setting the event date and time').dateTime = {
+      start,
+      ...(end ? { end } : {}),
+      ...(doorsOpen ? { doorsOpen } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Set the fine print shown on the ticket details
+   */
+  setFinePrint(finePrint: string, translations?: Translations): this {
+    this.requirePassClass('setting the fine print').finePrint = createLocalizedObject(
+      finePrint,
+      this.defaultLanguage,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set seat, row, section and gate
+   */
+  setSeatInfo(seatInfo: EventSeatInput): this {
+    const seat: EventSeat = {};
+
+    (['seat', 'row', 'section', 'gate'] as const).forEach(key => {
+      const value = seatInfo[key];
+      if (value !== undefined) {
+        seat[key] = createLocalizedObject(value, this.defaultLanguage);
+      }
+    });
+
+    this.passObject.seatInfo = seat;
+    return this;
+  }
+
+  /**
+   * Set the name of the ticket holder
+   */
+  setTicketHolderName(ticketHolderName: string): this {
+    this.passObject.ticketHolderName = ticketHolderName;
+    return this;
+  }
+
+  /**
+   * Set the ticket number
+   */
+  setTicketNumber(ticketNumber: string): this {
+    this.passObject.ticketNumber = ticketNumber;
+    return this;
+  }
+
+  /**
+   * Set the ticket type, e.g. "Adult" or "VIP"
+   */
+  setTicketType(ticketType: string, translations?: Translations): this {
+    this.passObject.ticketType = createLocalizedObject(
+      ticketType,
+      this.defaultLanguage,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set the face value of the ticket
+   */
+  setFaceValue(amount: number, currencyCode: string): this {
+    this.passObject.faceValue = toMoney(amount, currencyCode);
+    return this;
+  }
+
+  /**
+   * Set the reservation confirmation code
+   */
+  setConfirmationCode(confirmationCode: string): this {
+    this.passObject.reservationInfo = { confirmationCode };
+    return this;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  validate(): ValidationResult {
+    return validateEventTicketPass(this.passObject, this.passClass);
+  }
+
+  /**
+   * Patch the pass object in place before generating a non-strict JWT
+   */
+  protected applyPlaceholders(): void {
+    if (this.passClass?.eventName?.defaultValue) {
+      this.passClass.eventName.defaultValue.value = this.ensureNonEmptyString(
+        this.passClass.eventName.defaultValue.value,
+        'Event',
+      );
+    }
+
+    super.applyPlaceholders();
+  }
+}
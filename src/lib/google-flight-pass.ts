@@ -0,0 +1,211 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import {
+  BOARDING_DOORS,
+  BoardingDoor,
+  FLIGHT_STATUSES,
+  FlightStatus,
+  assertEnumValue,
+} from './enums';
+import { Translations, createLocalizedObject } from './localization';
+import {
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  LocalizedObject,
+  SerializedWalletPass,
+} from './pass-types';
+import { ValidationResult, validateFlightPass } from './validation';
+
+// Google Flight Schema Interfaces
+export interface FlightCarrier {
+  carrierIataCode?: string;
+  carrierIcaoCode?: string;
+  airlineName?: LocalizedObject;
+  airlineLogo?: ImageObject;
+}
+
+export interface FlightHeader {
+  carrier: FlightCarrier;
+  flightNumber: string;
+}
+
+export interface AirportInfo {
+  airportIataCode: string;
+  terminal?: string;
+  gate?: string;
+}
+
+export interface FlightClass extends BasePassClass {
+  flightHeader: FlightHeader;
+  origin: AirportInfo;
+  destination: AirportInfo;
+  localScheduledDepartureDateTime: string; // ISO 8601 local date/time, no offset
+  localBoardingDateTime?: string;
+  localScheduledArrivalDateTime?: string;
+  flightStatus?: FlightStatus;
+}
+
+export interface BoardingAndSeatingInfo {
+  boardingGroup?: string;
+  boardingPosition?: string;
+  sequenceNumber?: string;
+  seatNumber?: string;
+  seatClass?: string;
+  boardingDoor?: BoardingDoor;
+}
+
+export interface FlightReservationInfo {
+  confirmationCode?: string;
+  eticketNumber?: string;
+}
+
+export interface FlightObject extends BasePassObject {
+  passengerName: string;
+  boardingAndSeatingInfo?: BoardingAndSeatingInfo;
+  reservationInfo?: FlightReservationInfo;
+}
+
+export interface FlightInput {
+  carrierIataCode: string; // e.g. "LX"
+  flightNumber: string; // e.g. "123", without the carrier code
+  originAirport: string; // IATA code, e.g. "ZRH"
+  destinationAirport: string; // IATA code, e.g. "JFK"
+  departureDateTime: string; // Local scheduled departure, e.g. "2026-07-01T13:20:00"
+  airlineName?: string;
+}
+
+export class GoogleFlightPass extends GoogleWalletPass<FlightObject, FlightClass> {
+  readonly vertical = 'flight';
+
+  constructor(issuerId: string, passId: string, classId: string) {
+    super({
+      id: `${issuerId}.${passId}`,
+      classId: `${issuerId}.${classId}`,
+      passengerName: '',
+    });
+  }
+
+  /**
+   * Restore a pass from toJSON output (or its JSON string)
+   */
+  static fromJSON(
+    json: string | SerializedWalletPass<FlightObject, FlightClass>,
+  ): GoogleFlightPass {
+    const state = typeof json === 'string' ? JSON.parse(json) : json;
+    return new GoogleFlightPass(state.issuerId, state.passId, state.classId).restoreJSON(state);
+  }
+
+  /**
+   * Define the flight class (template) shared by every passenger on the flight
+   */
+  setPassClass(issuerName: string, flight: FlightInput, translations?: Translations): this {
+    this.passClass = {
+      id: this.passObject.classId,
+      issuerName,
+      flightHeader: {
+        carrier: {
+          carrierIataCode: flight.carrierIataCode,
+          ...(flight.airlineName
+            ? {
+                airlineName: createLocalizedObject(
+                  flight.airlineName,
+                  this.defaultLanguage,
+                  translations,
+                ),
+              }
+            : {}),
+        },
+        flightNumber: flight.flightNumber,
+      },
+      origin: { airportIataCode: flight.originAirport },
+      destination: { airportIataCode: flight.destinationAirport },
+      localScheduledDepartureDateTime: flight.departureDateTime,
+    };
+    return this;
+  }
+
+  /**
+   * Add the airline logo
+   */
+  setAirlineLogo(imageUrl: string, description?: string, translations?: Translations): this {
+    this.requirePassClass('adding an airline logo').flightHeader.carrier.airlineLogo =
+      this.createImageObject(imageUrl, description, translations);
+    return this;
+  }
+
+  /**
+   * Set terminal and gate at the origin airport
+   */
+  setOriginDetails(terminal?: string, gate?: string): this {
+    const origin = this.requirePassClass('setting origin details').origin;
+    if (terminal !== undefined) origin.terminal = terminal;
+    if (gate !== undefined) origin.gate = gate;
+    return this;
+  }
+
+  /**
+   * Set terminal and gate at the destination airport
+   */
+  setDestinationDetails(terminal?: string, gate?: string): this {
+    const destination = this.requirePassClass('setting destination details').destination;
+    if (terminal !== undefined) destination.terminal = terminal;
+    if (gate !== undefined) destination.gate = gate;
+    return this;
+  }
+
+  /**
+   * Set local boarding and scheduled arrival times (ISO 8601, no offset)
+   */
+  setFlightTimes(boardingDateTime?: string, arrivalDateTime?: string): this {
+    const passClass = this.requirePassClass('setting flight times');
+    if (boardingDateTime) passClass.localBoardingDateTime = boardingDateTime;
+    if (arrivalDateTime) passClass.localScheduledArrivalDateTime = arrivalDateTime;
+    return this;
+  }
+
+  /**
+   * Set the flight status
+   */
+  setFlightStatus(flightStatus: FlightStatus): this {
+    assertEnumValue('flight status', flightStatus, FLIGHT_STATUSES);
+    this.requirePassClass('setting the flight status').flightStatus = flightStatus;
+    return this;
+  }
+
+  /**
+   * Set the passenger name as printed on the boarding pass
+   */
+  setPassengerName(passengerName: string): this {
+    this.passObject.passengerName = passengerName;
+    return this;
+  }
+
+  /**
+   * Set seat, seat class, boarding group and related boarding details
+   */
+  setBoardingInfo(boardingInfo: BoardingAndSeatingInfo): this {
+    if (boardingInfo.boardingDoor !== undefined) {
+      assertEnumValue('boarding door', boardingInfo.boardingDoor, BOARDING_DOORS);
+    }
+    this.passObject.boardingAndSeatingInfo = { ...boardingInfo };
+    return this;
+  }
+
+  /**
+   * Set the booking confirmation code and e-ticket number
+   */
+  setConfirmationCode(confirmationCode: string, eticketNumber?: string): this {
+    this.passObject.reservationInfo = {
+      confirmationCode,
+      ...(eticketNumber ? { eticketNumber } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  validate(): ValidationResult {
+    return validateFlightPass(this.passObject, this.passClass);
+  }
+}
@@ -0,0 +1,99 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import { Translations } from './localization';
+import {
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  Money,
+  SerializedWalletPass,
+  toMoney,
+} from './pass-types';
+import { ValidationResult, validateGiftCardPass } from './validation';
+
+// Google Gift Card Schema Interfaces
+export interface GiftCardClass extends BasePassClass {
+  merchantName?: string;
+  programLogo?: ImageObject;
+  cardNumberLabel?: string;
+  pinLabel?: string;
+}
+
+export interface GiftCardObject extends BasePassObject {
+  cardNumber: string;
+  pin?: string;
+  balance?: Money;
+  balanceUpdateTime?: {
+    date: string; // ISO format
+  };
+}
+
+export class GoogleGiftCardPass extends GoogleWalletPass<GiftCardObject, GiftCardClass> {
+  readonly vertical = 'giftCard';
+
+  constructor(issuerId: string, passId: string, classId: string) {
+    super({
+      id: `${issuerId}.${passId}`,
+      classId: `${issuerId}.${classId}`,
+      cardNumber: '',
+    });
+  }
+
+  /**
+   * Restore a pass from toJSON output (or its JSON string)
+   */
+  static fromJSON(
+    json: string | SerializedWalletPass<GiftCardObject, GiftCardClass>,
+  ): GoogleGiftCardPass {
+    const state = typeof json === 'string' ? JSON.parse(json) : json;
+    return new GoogleGiftCardPass(state.issuerId, state.passId, state.classId).restoreJSON(state);
+  }
+
+  /**
+   * Define the gift card class (template)
+   */
+  setPassClass(issuerName: string, merchantName?: string): this {
+    this.passClass = {
+      id: this.passObject.classId,
+      issuerName,
+      ...(merchantName ? { merchantName } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Add the program logo to the gift card class
+   */
+  setProgramLogo(imageUrl: string, description?: string, translations?: Translations): this {
+    this.requirePassClass('adding a program logo').programLogo = this.createImageObject(
+      imageUrl,
+      description,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set the card number and optional PIN
+   */
+  setCardNumber(cardNumber: string, pin?: string): this {
+    this.passObject.cardNumber = cardNumber;
+    if (pin !== undefined) this.passObject.pin = pin;
+    return this;
+  }
+
+  /**
+   * Set the card balance and when it was last updated (defaults to now)
+   */
+  setBalance(amount: number, currencyCode: string, updateTime?: string): this {
+    this.passObject.balance = toMoney(amount, currencyCode);
+    this.passObject.balanceUpdateTime = { date: updateTime || new Date().toISOString() };
+    return this;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  validate(): ValidationResult {
+    return validateGiftCardPass(this.passObject, this.passClass);
+  }
+}
@@ -0,0 +1,174 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import { Translations, createLocalizedObject } from './localization';
+import {
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  LocalizedObject,
+  Money,
+  SerializedWalletPass,
+} from './pass-types';
+import { ValidationResult, validateLoyaltyPass } from './validation';
+
+// Google Loyalty Schema Interfaces
+export interface LoyaltyClass extends BasePassClass {
+  programName: string;
+  localizedProgramName?: LocalizedObject;
+  programLogo?: ImageObject;
+  accountIdLabel?: string;
+  accountNameLabel?: string;
+  rewardsTier?: string;
+  rewardsTierLabel?: string;
+}
+
+export interface LoyaltyPointsBalance {
+  string?: string;
+  int?: number;
+  double?: number;
+  money?: Money;
+}
+
+export interface LoyaltyPoints {
+  label?: string;
+  localizedLabel?: LocalizedObject;
+  balance: LoyaltyPointsBalance;
+}
+
+export interface LoyaltyObject extends BasePassObject {
+  accountId?: string;
+  accountName?: string;
+  loyaltyPoints?: LoyaltyPoints;
+  secondaryLoyaltyPoints?: LoyaltyPoints;
+}
+
+/**
+ * Points balance: integers and decimals become int/double, strings are shown verbatim
+ */
+export type LoyaltyBalanceInput = number | string | Money;
+
+export class GoogleLoyaltyPass extends GoogleWalletPass<LoyaltyObject, LoyaltyClass> {
+  readonly vertical = 'loyalty';
+
+  constructor(issuerId: string, passId: string, classId: string) {
+    super({
+      id: `${issuerId}.${passId}`,
+      classId: `${issuerId}.${classId}`,
+    });
+  }
+
+  /**
+   * Restore a pass from toJSON output (or its JSON string)
+   */
+  static fromJSON(
+    json: string | SerializedWalletPass<LoyaltyObject, LoyaltyClass>,
+  ): GoogleLoyaltyPass {
+    const state = typeof json === 'string' ? JSON.parse(json) : json;
+    return new GoogleLoyaltyPass(state.issuerId, state.passId, state.classId).restoreJSON(state);
+  }
+
+  /**
+   * Define the loyalty program class (template)
+   */
+  setPassClass(issuerName: string, programName: string, translations?: Translations): this {
+    this.passClass = {
+      id: this.passObject.classId,
+      issuerName,
+      programName,
+    };
+
+    if (translations) {
+      this.passClass.localizedProgramName = createLocalizedObject(
+        programName,
+        this.defaultLanguage,
+        translations,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Add the program logo to the loyalty class
+   */
+  setProgramLogo(imageUrl: string, description?: string, translations?: Translations): this {
+    this.requirePassClass('adding a program logo').programLogo = this.createImageObject(
+      imageUrl,
+      description,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set the rewards tier, e.g. "Gold"
+   */
+  setRewardsTier(rewardsTier: string, rewardsTierLabel?: string): this {
+    const passClass = this.requirePassClass('setting the rewards tier');
+    passClass.rewardsTier = rewardsTier;
+    if (rewardsTierLabel) passClass.rewardsTierLabel = rewardsTierLabel;
+    return this;
+  }
+
+  /**
+   * Set the member account id and name
+   */
+  setAccount(accountId: string, accountName?: string): this {
+    this.passObject.accountId = accountId;
+    if (accountName !== undefined) this.passObject.accountName = accountName;
+    return this;
+  }
+
+  /**
+   * Set the primary points balance
+   */
+  setLoyaltyPoints(balance: LoyaltyBalanceInput, label?: string): this {
+    this.passObject.loyaltyPoints = this.createLoyaltyPoints(balance, label);
+    return this;
+  }
+
+  /**
+   * Set the secondary points balance
+   */
+  setSecondaryLoyaltyPoints(balance: LoyaltyBalanceInput, label?: string): this {
+    this.passObject.secondaryLoyaltyPoints = this.createLoyaltyPoints(balance, label);
+    return this;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  validate(): ValidationResult {
+    return validateLoyaltyPass(this.passObject, this.passClass);
+  }
+
+  /**
+   * Patch the pass object in place before generating a non-strict JWT
+   */
+  protected applyPlaceholders(): void {
+    if (this.passClass) {
+      this.passClass.programName = this.ensureNonEmptyString(this.passClass.programName, 'Program');
+    }
+
+    super.applyPlaceholders();
+  }
+
+  /**
+   * Helper to create a points balance in the shape Google expects
+   */
+  private createLoyaltyPoints(balance: LoyaltyBalanceInput, label?: string): LoyaltyPoints {
+    let pointsBalance: LoyaltyPointsBalance;
+
+    if (typeof balance === 'string') {
+      pointsBalance = { string: balance };
+    } else if (typeof balance === 'number') {
+      pointsBalance = Number.isInteger(balance) ? { int: balance } : { double: balance };
+    } else {
+      pointsBalance = { money: balance };
+    }
+
+    return {
+      ...(label ? { label } : {}),
+      balance: pointsBalance,
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import {
+  CONCESSION_CATEGORIES,
+  ConcessionCategory,
+  FARE_CLASSES,
+  FareClass,
+  PASSENGER_TYPES,
+  PassengerType,
+  TRANSIT_TYPES,
+  TRIP_TYPES,
+  TransitType,
+  TripType,
+  assertEnumValue,
+} from './enums';
+import { Translations, createLocalizedObject } from './localization';
+import {
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  LocalizedObject,
+  Money,
+  SerializedWalletPass,
+  toMoney,
+} from './pass-types';
+import { ValidationResult, validateTransitPass } from './validation';
+
+// Google Transit Schema Interfaces
+export interface TransitClass extends BasePassClass {
+  transitType: TransitType;
+  transitOperatorName?: LocalizedObject;
+  logo?: ImageObject;
+}
+
+export interface TicketLeg {
+  originStationCode?: string;
+  originName?: LocalizedObject;
+  destinationStationCode?: string;
+  destinationName?: LocalizedObject;
+  departureDateTime?: string; // ISO 8601 date/time
+  arrivalDateTime?: string; // ISO 8601 date/time
+  fareName?: LocalizedObject;
+  carriage?: string;
+  platform?: string;
+  zone?: string;
+}
+
+export interface TicketCost {
+  faceValue?: Money;
+  purchasePrice?: Money;
+  discountMessage?: LocalizedObject;
+}
+
+export interface TransitObject extends BasePassObject {
+  tripType: TripType;
+  ticketLeg?: TicketLeg; // Used when the trip has a single leg
+  ticketLegs?: TicketLeg[]; // Used when the trip has more than one leg
+  passengerType?: PassengerType;
+  passengerNames?: string;
+  ticketNumber?: string;
+  concessionCategory?: ConcessionCategory;
+  fareClass?: FareClass;
+  ticketCost?: TicketCost;
+}
+
+export interface TicketLegInput {
+  originStationCode?: string;
+  originName?: string;
+  destinationStationCode?: string;
+  destinationName?: string;
+  departureDateTime?: string;
+  arrivalDateTime?: string;
+  fareName?: string;
+  carriage?: string;
+  platform?: string;
+  zone?: string;
+}
+
+export class GoogleTransitPass extends GoogleWalletPass<TransitObject, TransitClass> {
+  readonly vertical = 'transit';
+
+  constructor(issuerId: string, passId: string, classId: string) {
+    super({
+      id: `${issuerId}.${passId}`,
+      classId: `${issuerId}.${classId}`,
+      tripType: 'ONE_WAY',
+    });
+  }
+
+  /**
+   * Restore a pass from toJSON output (or its JSON string)
+   */
+  static fromJSON(
+    json: string | SerializedWalletPass<TransitObject, TransitClass>,
+  ): GoogleTransitPass {
+    const state = typeof json === 'string' ? JSON.parse(json) : json;
+    return new GoogleTransitPass(state.issuerId, state.passId, state.classId).restoreJSON(state);
+  }
+
+  /**
+   * Define the transit class (template)
+   */
+  setPassClass(
+    issuerName: string,
+    transitType: TransitType,
+    operatorName?: string,
+    translations?: Translations,
+  ): this {
+    assertEnumValue('transit type', transitType, TRANSIT_TYPES);
+    this.passClass = {
+      id: this.passObject.classId,
+      issuerName,
+      transitType,
+    };
+
+    if (operatorName) {
+      this.passClass.transitOperatorName = createLocalizedObject(
+        operatorName,
+        this.defaultLanguage,
+        translations,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Add logo to the transit class
+   */
+  setLogo(imageUrl: string, description?: string, translations?: Translations): this {
+    this.requirePassClass('adding a logo').logo = this.createImageObject(
+      imageUrl,
+      description,
+      translations,
+    );
+    return this;
+  }
+
+  /**
+   * Set the trip type
+   */
+  setTripType(tripType: TripType): this {
+    assertEnumValue('trip type', tripType, TRIP_TYPES);
+    this.passObject.tripType = tripType;
+    return this;
+  }
+
+  /**
+   * Add a ticket leg. A single leg is emitted as `ticketLeg`, several as `ticketLegs`.
+   */
+  addTicketLeg(leg: TicketLegInput): this {
+    const { originName, destinationName, fareName, ...plain } = leg;
+    const ticketLeg: TicketLeg = { ...plain };
+
+    if (originName !== undefined) {
+      ticketLeg.originName = createLocalizedObject(originName, this.defaultLanguage);
+    }
+    if (destinationName !== undefined) {
+      ticketLeg.destinationName = createLocalizedObject(destinationName, this.defaultLanguage);
+    }
+    if (fareName !== undefined) {
+      ticketLeg.fareName = createLocalizedObject(fareName, this.defaultLanguage);
+    }
+
+    const legs = [
+      ...(this.passObject.ticketLeg ? [this.passObject.ticketLeg] : []),
+      ...(this.passObject.ticketLegs || []),
+      ticketLeg,
+    ];
+
+    delete this.passObject.ticketLeg;
+    delete this.passObject.ticketLegs;
+
+    if (legs.length === 1) {
+      this.passObject.ticketLeg = legs[0];
+    } else {
+      this.passObject.ticketLegs = legs;
+    }
+
+    return this;
+  }
+
+  /**
+   * Set whether the ticket covers one or several passengers
+   */
+  setPassengerType(passengerType: PassengerType, passengerNames?: string): this {
+    assertEnumValue('passenger type', passengerType, PASSENGER_TYPES);
+    this.passObject.passengerType = passengerType;
+    if (passengerNames !== undefined) this.passObject.passengerNames = passengerNames;
+    return this;
+  }
+
+  /**
+   * Set the ticket number
+   */
+  setTicketNumber(ticketNumber: string): this {
+    this.passObject.ticketNumber = ticketNumber;
+    return this;
+  }
+
+  /**
+   * Set the fare: concession category, fare class and cost
+   */
+  setFare(fare: {
+    concessionCategory?: ConcessionCategory;
+    fareClass?: FareClass;
+    faceValue?: number;
+    purchasePrice?: number;
+    currencyCode?: string;
+  }): this {
+    if (fare.concessionCategory) {
+      assertEnumValue('concession category', fare.concessionCategory, CONCESSION_CATEGORIES);
+      this.passObject.concessionCategory = fare.concessionCategory;
+    }
+    if (fare.fareClass) {
+      assertEnumValue('fare class', fare.fareClass, FARE_CLASSES);
+      this.passObject.fareClass = fare.fareClass;
+    }
+
+    if (fare.faceValue !== undefined || fare.purchasePrice !== undefined) {
+      if (!fare.currencyCode) {
+        throw new Error('A currency code is required to set the ticket cost');
+      }
+
+      const currencyCode = fare.currencyCode;
+      this.passObject.ticketCost = {
+        ...(fare.faceValue !== undefined
+          ? { faceValue: toMoney(fare.faceValue, currencyCode) }
+          : {}),
+        ...(fare.purchasePrice !== undefined
+          ? { purchasePrice: toMoney(fare.purchasePrice, currencyCode) }
+          : {}),
+      };
+    }
+
+    return this;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  validate(): ValidationResult {
+    return validateTransitPass(this.passObject, this.passClass);
+  }
+}
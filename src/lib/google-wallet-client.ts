@@ -0,0 +1,393 @@
+import * as jwt from 'jsonwebtoken';
+import http from 'http';
+import https from 'https';
+import type { GoogleGenericPassClass, GoogleGenericPassObject } from './google-generic-pass';
+import type {
+  AddMessageRequest,
+  BasePassClass,
+  BasePassObject,
+  WalletVertical,
+} from './pass-types';
+import { Signer, signJwtAsync } from './signer';
+
+export const DEFAULT_WALLET_API_BASE_URL = 'https://walletobjects.googleapis.com/walletobjects/v1';
+export const DEFAULT_OAUTH_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+export const WALLET_OBJECT_ISSUER_SCOPE = 'https://www.googleapis.com/auth/wallet_object.issuer';
+
+export interface ServiceAccountCredentials {
+  serviceAccountEmail: string;
+  privateKey: string;
+  privateKeyId?: string; // Written to JWT headers as "kid"
+  projectId?: string;
+}
+
+/**
+ * Service account credentials whose private key is only reachable through a signer, e.g. a KMS
+ */
+export interface SignerCredentials {
+  serviceAccountEmail: string;
+  signer: Signer; // Signs the OAuth token assertion
+}
+
+export interface GoogleWalletClientOptions {
+  credentials: ServiceAccountCredentials | SignerCredentials;
+  baseUrl?: string; // Defaults to the public Wallet Objects API
+  tokenUrl?: string; // Defaults to Google's OAuth 2.0 token endpoint
+  scope?: string;
+}
+
+export interface ListOptions {
+  maxResults?: number;
+  token?: string; // Page token returned in the previous response
+}
+
+export interface ListResponse<T> {
+  resources: T[];
+  pagination?: {
+    kind?: string;
+    resultsPerPage?: number;
+    nextPageToken?: string;
+  };
+}
+
+export class GoogleWalletApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message);
+    this.name = 'GoogleWalletApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface HttpResponse {
+  status: number;
+  body: unknown;
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export class GoogleWalletClient {
+  private credentials: ServiceAccountCredentials | SignerCredentials;
+  private baseUrl: string;
+  private tokenUrl: string;
+  private scope: string;
+  private accessToken?: AccessToken;
+
+  constructor(options: GoogleWalletClientOptions) {
+    const { credentials } = options;
+    const hasKey = credentials && ('signer' in credentials || credentials.privateKey);
+    if (!credentials?.serviceAccountEmail || !hasKey) {
+      throw new Error('Service account credentials not set');
+    }
+
+    this.credentials = options.credentials;
+    this.baseUrl = (options.baseUrl || DEFAULT_WALLET_API_BASE_URL).replace(/\/+$/, '');
+    this.tokenUrl = options.tokenUrl || DEFAULT_OAUTH_TOKEN_URL;
+    this.scope = options.scope || WALLET_OBJECT_ISSUER_SCOPE;
+  }
+
+  /**
+   * Insert a new class (generic unless another vertical is given)
+   */
+  insertClass<T extends BasePassClass = GoogleGenericPassClass>(
+    passClass: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('POST', `/${vertical}Class`, passClass);
+  }
+
+  /**
+   * Fetch a class by its full id (issuerId.classId)
+   */
+  getClass<T extends BasePassClass = GoogleGenericPassClass>(
+    resourceId: string,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('GET', `/${vertical}Class/${encodeURIComponent(resourceId)}`);
+  }
+
+  /**
+   * Patch selected fields of an existing class
+   */
+  patchClass<T extends BasePassClass = GoogleGenericPassClass>(
+    resourceId: string,
+    patch: Partial<T>,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('PATCH', `/${vertical}Class/${encodeURIComponent(resourceId)}`, patch);
+  }
+
+  /**
+   * Replace an existing class
+   */
+  updateClass<T extends BasePassClass = GoogleGenericPassClass>(
+    passClass: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('PUT', `/${vertical}Class/${encodeURIComponent(passClass.id)}`, passClass);
+  }
+
+  /**
+   * Insert a class, replacing it when a class with the same id already exists
+   */
+  async upsertClass<T extends BasePassClass = GoogleGenericPassClass>(
+    passClass: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    try {
+      return await this.insertClass(passClass, vertical);
+    } catch (error) {
+      if (error instanceof GoogleWalletApiError && error.status === 409) {
+        return this.updateClass(passClass, vertical);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a message to an existing class, shown on every object using it
+   */
+  addClassMessage<T extends BasePassClass = GoogleGenericPassClass>(
+    resourceId: string,
+    request: AddMessageRequest,
+    vertical: WalletVertical = 'generic',
+  ): Promise<{ resource: T }> {
+    const path = `/${vertical}Class/${encodeURIComponent(resourceId)}/addMessage`;
+    return this.call('POST', path, request);
+  }
+
+  /**
+   * List the classes of an issuer
+   */
+  listClasses<T extends BasePassClass = GoogleGenericPassClass>(
+    issuerId: string,
+    options: ListOptions = {},
+    vertical: WalletVertical = 'generic',
+  ): Promise<ListResponse<T>> {
+    return this.call('GET', `/${vertical}Class${this.buildQuery({ issuerId, ...options })}`);
+  }
+
+  /**
+   * Insert a new object (generic unless another vertical is given)
+   */
+  insertObject<T extends BasePassObject = GoogleGenericPassObject>(
+    passObject: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('POST', `/${vertical}Object`, passObject);
+  }
+
+  /**
+   * Fetch an object by its full id (issuerId.passId)
+   */
+  getObject<T extends BasePassObject = GoogleGenericPassObject>(
+    resourceId: string,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('GET', `/${vertical}Object/${encodeURIComponent(resourceId)}`);
+  }
+
+  /**
+   * Patch selected fields of an existing object
+   */
+  patchObject<T extends BasePassObject = GoogleGenericPassObject>(
+    resourceId: string,
+    patch: Partial<T>,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('PATCH', `/${vertical}Object/${encodeURIComponent(resourceId)}`, patch);
+  }
+
+  /**
+   * Replace an existing object
+   */
+  updateObject<T extends BasePassObject = GoogleGenericPassObject>(
+    passObject: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    return this.call('PUT', `/${vertical}Object/${encodeURIComponent(passObject.id)}`, passObject);
+  }
+
+  /**
+   * Insert an object, replacing it when an object with the same id already exists
+   */
+  async upsertObject<T extends BasePassObject = GoogleGenericPassObject>(
+    passObject: T,
+    vertical: WalletVertical = 'generic',
+  ): Promise<T> {
+    try {
+      return await this.insertObject(passObject, vertical);
+    } catch (error) {
+      if (error instanceof GoogleWalletApiError && error.status === 409) {
+        return this.updateObject(passObject, vertical);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a message to an existing object, notifying its holders
+   */
+  addObjectMessage<T extends BasePassObject = GoogleGenericPassObject>(
+    resourceId: string,
+    request: AddMessageRequest,
+    vertical: WalletVertical = 'generic',
+  ): Promise<{ resource: T }> {
+    const path = `/${vertical}Object/${encodeURIComponent(resourceId)}/addMessage`;
+    return this.call('POST', path, request);
+  }
+
+  /**
+   * List the objects belonging to a class
+   */
+  listObjects<T extends BasePassObject = GoogleGenericPassObject>(
+    classId: string,
+    options: ListOptions = {},
+    vertical: WalletVertical = 'generic',
+  ): Promise<ListResponse<T>> {
+    return this.call('GET', `/${vertical}Object${this.buildQuery({ classId, ...options })}`);
+  }
+
+  /**
+   * Exchange the service account credentials for an OAuth access token.
+   * Tokens are cached until shortly before they expire.
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt - 60_000 > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    const claims = {
+      iss: this.credentials.serviceAccountEmail,
+      scope: this.scope,
+      aud: this.tokenUrl,
+      iat,
+      exp: iat + 3600,
+    };
+    const assertion =
+      'signer' in this.credentials
+        ? await signJwtAsync(claims, this.credentials.signer)
+        : jwt.sign(claims, this.credentials.privateKey, {
+            algorithm: 'RS256',
+            ...(this.credentials.privateKeyId ? { keyid: this.credentials.privateKeyId } : {}),
+          });
+
+    const form = new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString();
+
+    const response = await this.send('POST', this.tokenUrl, form, {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+
+    const body = response.body as { access_token?: string; expires_in?: number } | undefined;
+    if (response.status >= 400 || !body?.access_token) {
+      throw new GoogleWalletApiError(
+        `Failed to obtain access token (HTTP ${response.status})`,
+        response.status,
+        response.body,
+      );
+    }
+
+    this.accessToken = {
+      value: body.access_token,
+      expiresAt: Date.now() + (body.expires_in ?? 3600) * 1000,
+    };
+
+    return this.accessToken.value;
+  }
+
+  /**
+   * Perform an authenticated call against the Wallet Objects API
+   */
+  private async call<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const token = await this.getAccessToken();
+    const response = await this.send(
+      method,
+      `${this.baseUrl}${path}`,
+      body === undefined ? undefined : JSON.stringify(body),
+      {
+        Authorization: `Bearer ${token}`,
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+    );
+
+    if (response.status >= 400) {
+      const error = (response.body as { error?: { message?: string } } | undefined)?.error;
+      throw new GoogleWalletApiError(
+        `${method} ${path} failed (HTTP ${response.status})${
+          error?.message ? `: ${error.message}` : ''
+        }`,
+        response.status,
+        response.body,
+      );
+    }
+
+    return response.body as T;
+  }
+
+  /**
+   * Helper to build a query string, skipping undefined values
+   */
+  private buildQuery(params: Record<string, string | number | undefined>): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query.append(key, String(value));
+    });
+    const encoded = query.toString();
+    return encoded ? `?${encoded}` : '';
+  }
+
+  /**
+   * Minimal HTTP(S) transport so the library has no runtime dependency on fetch
+   */
+  private send(
+    method: string,
+    url: string,
+    body: string | undefined,
+    headers: Record<string, string>,
+  ): Promise<HttpResponse> {
+    const target = new URL(url);
+    const transport = target.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const request = transport.request(
+        target,
+        {
+          method,
+          headers: {
+            Accept: 'application/json',
+            ...headers,
+            ...(body !== undefined ? { 'Content-Length': Buffer.byteLength(body) } : {}),
+          },
+        },
+        response => {
+          const chunks: Buffer[] = [];
+          response.on('data', chunk => chunks.push(chunk));
+          response.on('end', () => {
+            const raw = Buffer.concat(chunks).toString('utf8');
+            let parsed: unknown = raw;
+            try {
+              parsed = raw ? JSON.parse(raw) : undefined;
+            } catch {
+              // Leave non-JSON bodies as raw text
+            }
+            resolve({ status: response.statusCode ?? 0, body: parsed });
+          });
+        },
+      );
+
+      request.on('error', reject);
+      if (body !== undefined) request.write(body);
+      request.end();
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { GoogleWalletPass } from './google-wallet-pass';
+import { BasePassClass, BasePassObject, GenerateJwtOptions, WalletPayload } from './pass-types';
+import { SaveLinkOptions, buildSaveLink } from './save-link';
+
+/**
+ * Any pass builder, regardless of vertical
+ */
+export type AnyWalletPass = GoogleWalletPass<BasePassObject, BasePassClass>;
+
+/**
+ * Collects several passes, of one or more verticals, into a single save-to-wallet JWT.
+ * Classes shared between passes are emitted once; the JWT is signed with the first pass's
+ * service account credentials.
+ */
+export class GoogleWalletPassBundle {
+  private passes: AnyWalletPass[] = [];
+  private groupingId?: string;
+
+  constructor(passes: AnyWalletPass[] = []) {
+    this.addPasses(...passes);
+  }
+
+  /**
+   * Add a pass to the bundle
+   */
+  addPass(pass: AnyWalletPass): this {
+    const objectId = pass.getPassObject().id;
+    if (this.passes.some(p => p.vertical === pass.vertical && p.getPassObject().id === objectId)) {
+      throw new Error(`Pass object ${objectId} is already in the bundle`);
+    }
+
+    this.passes.push(pass);
+    return this;
+  }
+
+  /**
+   * Add several passes to the bundle
+   */
+  addPasses(...passes: AnyWalletPass[]): this {
+    passes.forEach(pass => this.addPass(pass));
+    return this;
+  }
+
+  /**
+   * Group every pass in the bundle together, sorted in the order they were added
+   */
+  setGroupingInfo(groupingId: string): this {
+    this.groupingId = groupingId;
+    return this;
+  }
+
+  /**
+   * Get the passes in the bundle
+   */
+  getPasses(): AnyWalletPass[] {
+    return [...this.passes];
+  }
+
+  /**
+   * Merge the objects and classes of every pass, emitting each class id once
+   */
+  getWalletPayload(): WalletPayload {
+    const payload: Record<string, unknown[]> = {};
+    const classes = new Map<string, string>();
+
+    this.passes.forEach((pass, index) => {
+      const objectKey = `${pass.vertical}Objects`;
+      const passObject = this.groupingId
+        ? {
+            ...pass.getPassObject(),
+            groupingInfo: { groupingId: this.groupingId, sortIndex: index + 1 },
+          }
+        : pass.getPassObject();
+      payload[objectKey] = [...(payload[objectKey] || []), passObject];
+
+      const passClass = pass.getPassClass();
+      if (!passClass) return;
+
+      const classKey = `${pass.vertical}Classes`;
+      const classJson = JSON.stringify(passClass);
+      const existing = classes.get(`${classKey}:${passClass.id}`);
+
+      if (existing === undefined) {
+        classes.set(`${classKey}:${passClass.id}`, classJson);
+        payload[classKey] = [...(payload[classKey] || []), passClass];
+      } else if (existing !== classJson) {
+        throw new Error(`Conflicting definitions for class ${passClass.id} in the bundle`);
+      }
+    });
+
+    return payload as WalletPayload;
+  }
+
+  /**
+   * Generate one JWT holding every pass in the bundle
+   */
+  generateJwt(origins: string[] = [], options: GenerateJwtOptions = {}): string {
+    if (this.passes.length === 0) {
+      throw new Error('Bundle must contain at least one pass');
+    }
+
+    this.passes.forEach(pass => pass.prepareForSigning(options));
+    return this.passes[0].signWalletPayload(this.getWalletPayload(), origins);
+  }
+
+  /**
+   * Generate one "Add to Google Wallet" link for every pass in the bundle
+   */
+  generateAddToWalletLink(origins: string[] = [], options: SaveLinkOptions = {}): string {
+    const token = this.generateJwt(origins, options);
+    return buildSaveLink(token, options);
+  }
+
+  /**
+   * Generate one JWT holding every pass in the bundle, supporting asynchronous signers
+   */
+  async generateJwtAsync(
+    origins: string[] = [],
+    options: GenerateJwtOptions = {},
+  ): Promise<string> {
+    if (this.passes.length === 0) {
+      throw new Error('Bundle must contain at least one pass');
+    }
+
+    this.passes.forEach(pass => pass.prepareForSigning(options));
+    return this.passes[0].signWalletPayloadAsync(this.getWalletPayload(), origins);
+  }
+
+  /**
+   * Generate one "Add to Google Wallet" link for every pass, supporting asynchronous signers
+   */
+  async generateAddToWalletLinkAsync(
+    origins: string[] = [],
+    options: SaveLinkOptions = {},
+  ): Promise<string> {
+    const token = await this.generateJwtAsync(origins, options);
+    return buildSaveLink(token, options);
+  }
+}
@@ -0,0 +1,1160 @@
+import * as jwt from 'jsonwebtoken';
+import fs from 'fs';
+import {
+  BARCODE_RENDER_ENCODINGS,
+  BARCODE_TYPES,
+  BarcodeRenderEncoding,
+  BarcodeType,
+  MESSAGE_TYPES,
+  OBJECT_STATES,
+  ObjectState,
+  TOTP_ALGORITHMS,
+  assertEnumValue,
+} from './enums';
+import { ClassTemplateBuilder, templateItem } from './class-template';
+import { LoadCredentialsOptions, loadServiceAccountCredentials } from './credentials';
+import { GoogleWalletClient, GoogleWalletClientOptions } from './google-wallet-client';
+import {
+  DEFAULT_LANGUAGE,
+  Translations,
+  assertValidLanguageTag,
+  createLocalizedObject,
+} from './localization';
+import {
+  AddMessageRequest,
+  BasePassClass,
+  BasePassObject,
+  CardRowTemplateInfo,
+  ClassTemplateInfo,
+  GenerateJwtOptions,
+  ImageObject,
+  JwtPayload,
+  LatLongPoint,
+  LinkInput,
+  Message,
+  MessageInput,
+  RotatingBarcodeInput,
+  SerializedWalletPass,
+  SkinnyWalletPayload,
+  TextModuleObject,
+  WalletPayload,
+  WalletVertical,
+  cloneJson,
+  splitResourceId,
+} from './pass-types';
+import {
+  SaveLinkOptions,
+  SkinnyFallbackOptions,
+  buildSaveLink,
+  isSaveLinkWithinLimit,
+} from './save-link';
+import { ObjectStatePatch, assertStateTransition } from './pass-lifecycle';
+import {
+  DEFAULT_TOTP_PERIOD_MILLIS,
+  DEFAULT_TOTP_VALUE_LENGTH,
+  getTotpValueIndexes,
+  isValidTotpKey,
+} from './rotating-barcode';
+import { Signer, signJwt, signJwtAsync } from './signer';
+import { PassValidationError, ValidationResult } from './validation';
+
+/** Version written by toJSON; bump when the serialized shape changes incompatibly */
+export const PASS_JSON_VERSION = 1;
+
+/**
+ * Shared builder and signing logic for every Google Wallet pass vertical.
+ * Subclasses own the vertical-specific fields of the object and class.
+ */
+export abstract class GoogleWalletPass<
+  TObject extends BasePassObject,
+  TClass extends BasePassClass,
+> {
+  abstract readonly vertical: WalletVertical;
+
+  protected passObject: TObject;
+  protected passClass?: TClass;
+  protected serviceAccountEmail: string | undefined;
+  protected privateKey: string | undefined;
+  protected privateKeyId: string | undefined;
+  protected signer: Signer | undefined;
+  protected defaultLanguage: string = DEFAULT_LANGUAGE;
+
+  protected constructor(passObject: TObject) {
+    this.passObject = passObject;
+  }
+
+  /**
+   * Validate the pass object and class without modifying them
+   */
+  abstract validate(): ValidationResult;
+
+  /**
+   * Load service account credentials for JWT signing
+   */
+  setServiceAccountCredentials(serviceAccountEmail: string, privateKeyPathOrJson: string): this {
+    this.serviceAccountEmail = serviceAccountEmail;
+    this.privateKeyId = undefined;
+    this.signer = undefined;
+
+    try {
+      let serviceAccountJson;
+
+      // Check if the input is a JSON string
+      try {
+        serviceAccountJson = JSON.parse(privateKeyPathOrJson);
+      } catch (jsonError) {
+        // If parsing fails, treat as file path
+        if (!fs.existsSync(privateKeyPathOrJson)) {
+          throw new Error(
+            `Invalid file path or malformed JSON: ${
+              jsonError instanceof Error ? jsonError.message : 'Unknown error'
+            }`,
+          );
+        }
+        serviceAccountJson = JSON.parse(fs.readFileSync(privateKeyPathOrJson, 'utf8'));
+      }
+
+      // Extract the private key from the JSON
+      if (serviceAccountJson.private_key) {
+        this.privateKey = serviceAccountJson.private_key;
+        this.privateKeyId = serviceAccountJson.private_key_id;
+      } else {
+        throw new Error('Private key not found in the provided service account JSON.');
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to load service account key: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Set service account credentials directly with key content
+   */
+  setServiceAccountCredentialsFromKeyData(
+    serviceAccountEmail: string,
+    privateKey: string,
+    privateKeyId?: string,
+  ): this {
+    this.serviceAccountEmail = serviceAccountEmail;
+    this.privateKey = privateKey;
+    this.privateKeyId = privateKeyId;
+    this.signer = undefined;
+    return this;
+  }
+
+  /**
+   * Load the service account email, private key and key id without blocking, from a key file,
+   * JSON, or the environment (see loadServiceAccountCredentials). Parsed keys are cached.
+   */
+  async loadServiceAccountCredentials(options: LoadCredentialsOptions = {}): Promise<this> {
+    const credentials = await loadServiceAccountCredentials(options);
+    return this.setServiceAccountCredentialsFromKeyData(
+      credentials.serviceAccountEmail,
+      credentials.privateKey,
+      credentials.privateKeyId,
+    );
+  }
+
+  /**
+   * Sign JWTs through a custom signer, e.g. backed by a KMS, instead of a PEM private key.
+   * Asynchronous signers need generateJwtAsync and generateAddToWalletLinkAsync.
+   */
+  setSigner(serviceAccountEmail: string, signer: Signer): this {
+    this.serviceAccountEmail = serviceAccountEmail;
+    this.signer = signer;
+    this.privateKey = undefined;
+    this.privateKeyId = undefined;
+    return this;
+  }
+
+  /**
+   * Set the default language used for localized fields set after this call
+   */
+  setDefaultLanguage(language: string): this {
+    assertValidLanguageTag(language);
+    this.defaultLanguage = language;
+    return this;
+  }
+
+  /**
+   * Get the default language for localized fields
+   */
+  getDefaultLanguage(): string {
+    return this.defaultLanguage;
+  }
+
+  /**
+   * Add class template info to the pass class: card rows, a full ClassTemplateInfo, or a builder
+   */
+  setClassTemplateInfo(
+    template: CardRowTemplateInfo[] | ClassTemplateInfo | ClassTemplateBuilder,
+  ): this {
+    if (!this.passClass) {
+      throw new Error('Pass class must be created before adding template info');
+    }
+
+    if (template instanceof ClassTemplateBuilder) {
+      this.passClass.classTemplateInfo = template.build();
+    } else if (Array.isArray(template)) {
+      this.passClass.classTemplateInfo = {
+        cardTemplateOverride: {
+          cardRowTemplateInfos: template,
+        },
+      };
+    } else {
+      this.passClass.classTemplateInfo = template;
+    }
+
+    return this;
+  }
+
+  /**
+   * Helper to create a one-item row template
+   */
+  createOneItemRow(fieldPath: string): CardRowTemplateInfo {
+    return { oneItem: { item: templateItem(fieldPath) } };
+  }
+
+  /**
+   * Helper to create a three-item row template
+   */
+  createThreeItemsRow(
+    startFieldPath?: string,
+    middleFieldPath?: string,
+    endFieldPath?: string,
+  ): CardRowTemplateInfo {
+    return {
+      threeItems: {
+        startItem: startFieldPath ? templateItem(startFieldPath) : undefined,
+        middleItem: middleFieldPath ? templateItem(middleFieldPath) : undefined,
+        endItem: endFieldPath ? templateItem(endFieldPath) : undefined,
+      },
+    };
+  }
+
+  /**
+   * Helper to create a two-item row template
+   */
+  createTwoItemsRow(startFieldPath?: string, endFieldPath?: string): CardRowTemplateInfo {
+    const row: CardRowTemplateInfo = {
+      twoItems: {
+        startItem: startFieldPath
+          ? {
+              firstValue: {
+                fields: [{ fieldPath: startFieldPath }],
+              },
+            }
+          : undefined,
+        endItem: endFieldPath
+          ? {
+              firstValue: {
+                fields: [{ fieldPath: endFieldPath }],
+              },
+            }
+          : undefined,
+      },
+    };
+    return row;
+  }
+
+  /**
+   * Set the background color
+   */
+  setBackgroundColor(hexBackgroundColor: string): this {
+    this.passObject.hexBackgroundColor = hexBackgroundColor;
+    return this;
+  }
+
+  /**
+   * Add a text module
+   */
+  addTextModule(
+    id: string,
+    body: string,
+    header?: string,
+    translations: { header?: Translations; body?: Translations } = {},
+  ): this {
+    if (!this.passObject.textModulesData) {
+      this.passObject.textModulesData = [];
+    }
+
+    const module: TextModuleObject = {
+      id,
+      body,
+      header: header || undefined,
+    };
+
+    // Localized variants are only emitted when translations are supplied
+    if (translations.body) {
+      module.localizedBody = createLocalizedObject(body, this.defaultLanguage, translations.body);
+    }
+
+    if (header && translations.header) {
+      module.localizedHeader = createLocalizedObject(
+        header,
+        this.defaultLanguage,
+        translations.header,
+      );
+    }
+
+    // Format text modules exactly as expected by Google Wallet API
+    this.passObject.textModulesData.push(module);
+
+    return this;
+  }
+
+  /**
+   * Add hero image to pass
+   */
+  setHeroImage(imageUrl: string, description?: string, translations?: Translations): this {
+    this.passObject.heroImage = this.createImageObject(imageUrl, description, translations);
+    return this;
+  }
+
+  /**
+   * Add an image module
+   */
+  addImageModule(
+    id: string,
+    imageUrl: string,
+    description?: string,
+    translations?: Translations,
+  ): this {
+    if (!this.passObject.imageModulesData) {
+      this.passObject.imageModulesData = [];
+    }
+
+    this.passObject.imageModulesData.push({
+      id,
+      mainImage: this.createImageObject(imageUrl, description, translations),
+    });
+
+    return this;
+  }
+
+  /**
+   * Add Android app link
+   */
+  addAndroidAppLink(
+    title: string,
+    targetUri: string,
+    description?: string,
+    logoImageUrl?: string,
+    logoDescription?: string,
+  ): this {
+    if (!this.passObject.appLinkData) {
+      this.passObject.appLinkData = {};
+    }
+
+    this.passObject.appLinkData.androidAppLinkInfo = {
+      title,
+      description: description,
+      appTarget: {
+        targetUri,
+      },
+    };
+
+    if (logoImageUrl) {
+      this.passObject.appLinkData.androidAppLinkInfo.appLogoImage = this.createImageObject(
+        logoImageUrl,
+        logoDescription,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Add iOS app link
+   */
+  addIosAppLink(
+    title: string,
+    targetUri: string,
+    description?: string,
+    logoImageUrl?: string,
+    logoDescription?: string,
+  ): this {
+    if (!this.passObject.appLinkData) {
+      this.passObject.appLinkData = {};
+    }
+
+    this.passObject.appLinkData.iosAppLinkInfo = {
+      title,
+      description: description,
+      appTarget: {
+        targetUri,
+      },
+    };
+
+    if (logoImageUrl) {
+      this.passObject.appLinkData.iosAppLinkInfo.appLogoImage = this.createImageObject(
+        logoImageUrl,
+        logoDescription,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Add web app link
+   */
+  addWebAppLink(
+    title: string,
+    targetUri: string,
+    description?: string,
+    logoImageUrl?: string,
+    logoDescription?: string,
+  ): this {
+    if (!this.passObject.appLinkData) {
+      this.passObject.appLinkData = {};
+    }
+
+    this.passObject.appLinkData.webAppLinkInfo = {
+      title,
+      description: description,
+      appTarget: {
+        targetUri,
+      },
+    };
+
+    if (logoImageUrl) {
+      this.passObject.appLinkData.webAppLinkInfo.appLogoImage = this.createImageObject(
+        logoImageUrl,
+        logoDescription,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Set grouping info
+   */
+  setGroupingInfo(groupingId: string, sortIndex?: number): this {
+    this.passObject.groupingInfo = {
+      groupingId,
+      ...(sortIndex !== undefined ? { sortIndex } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Add barcode to pass
+   */
+  setBarcode(
+    value: string,
+    type: BarcodeType = 'QR_CODE',
+    alternateText?: string,
+    renderEncoding?: BarcodeRenderEncoding,
+  ): this {
+    assertEnumValue('barcode type', type, BARCODE_TYPES);
+    if (renderEncoding) {
+      assertEnumValue('render encoding', renderEncoding, BARCODE_RENDER_ENCODINGS);
+    }
+
+    // Google Wallet expects barcode to have an alternateText, even if it's empty
+    this.passObject.barcode = {
+      type,
+      value,
+      alternateText: alternateText || '', // Include empty string if no value provided
+      ...(renderEncoding ? { renderEncoding } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Add a rotating TOTP barcode, which Wallet regenerates on the device so screenshots expire.
+   * The static barcode stays as the fallback for clients without rotating barcode support.
+   */
+  setRotatingBarcode(input: RotatingBarcodeInput): this {
+    const type = input.type || 'QR_CODE';
+    const algorithm = input.algorithm || 'TOTP_SHA1';
+    assertEnumValue('barcode type', type, BARCODE_TYPES);
+    assertEnumValue('TOTP algorithm', algorithm, TOTP_ALGORITHMS);
+    if (input.renderEncoding) {
+      assertEnumValue('render encoding', input.renderEncoding, BARCODE_RENDER_ENCODINGS);
+    }
+
+    input.keys.forEach((key, index) => {
+      if (!isValidTotpKey(key)) {
+        throw new Error(`TOTP key ${index} must be hex (Base16) encoded`);
+      }
+    });
+    getTotpValueIndexes(input.valuePattern).forEach(index => {
+      if (index >= input.keys.length) {
+        throw new Error(`{totp_value_${index}} in the value pattern has no matching key`);
+      }
+    });
+
+    const valueLength = input.valueLength ?? DEFAULT_TOTP_VALUE_LENGTH;
+    this.passObject.rotatingBarcode = {
+      type,
+      valuePattern: input.valuePattern,
+      totpDetails: {
+        periodMillis: String(input.periodMillis ?? DEFAULT_TOTP_PERIOD_MILLIS),
+        algorithm,
+        parameters: input.keys.map(key => ({ key, valueLength })),
+      },
+      ...(input.renderEncoding ? { renderEncoding: input.renderEncoding } : {}),
+      ...(input.alternateText ? { alternateText: input.alternateText } : {}),
+    };
+    return this;
+  }
+
+  /**
+   * Move the object to a new state, e.g. ACTIVE to EXPIRED. Throws a PassStateTransitionError
+   * for transitions that make no sense, such as reactivating a COMPLETED pass.
+   */
+  setState(state: ObjectState): this {
+    assertEnumValue('object state', state, OBJECT_STATES);
+    assertStateTransition(this.passObject.state, state);
+    this.passObject.state = state;
+    return this;
+  }
+
+  /**
+   * Mark the pass as expired, optionally ending its valid time interval at the given date
+   */
+  expire(endDate?: string): this {
+    this.setState('EXPIRED');
+    if (endDate) {
+      this.passObject.validTimeInterval = {
+        ...this.passObject.validTimeInterval,
+        end: { date: endDate },
+      };
+    }
+    return this;
+  }
+
+  /**
+   * Mark the pass as completed, e.g. a redeemed offer or a used ticket. This is final.
+   */
+  complete(): this {
+    return this.setState('COMPLETED');
+  }
+
+  /**
+   * Mark the pass as inactive, e.g. a suspended membership
+   */
+  deactivate(): this {
+    return this.setState('INACTIVE');
+  }
+
+  /**
+   * Mark the pass as active again, e.g. a renewed membership
+   */
+  activate(): this {
+    return this.setState('ACTIVE');
+  }
+
+  /**
+   * Patch body carrying the current state (and valid time interval) to the objects endpoint
+   */
+  getStatePatch(): ObjectStatePatch {
+    return {
+      state: this.passObject.state || 'ACTIVE',
+      ...(this.passObject.validTimeInterval
+        ? { validTimeInterval: cloneJson(this.passObject.validTimeInterval) }
+        : {}),
+    };
+  }
+
+  /**
+   * Have Google notify an https endpoint whenever a pass of this class is saved or deleted.
+   * Handle the callbacks with createPassCallbackHandler.
+   */
+  setCallbackUrl(url: string): this {
+    this.requirePassClass('setting the callback URL').callbackOptions = { url };
+    return this;
+  }
+
+  /**
+   * Add a message (notice) to the object, or to the class to reach every pass using it
+   */
+  addMessage(input: MessageInput, target: 'object' | 'class' = 'object'): this {
+    const messageType = input.messageType || 'TEXT';
+    assertEnumValue('message type', messageType, MESSAGE_TYPES);
+
+    const owner = this.getMessageOwner(target);
+    if ((owner.messages || []).some(message => message.id === input.id)) {
+      throw new Error(`Message ${input.id} is already on the pass ${target}`);
+    }
+
+    const message: Message = {
+      id: input.id,
+      ...(input.header ? { header: input.header } : {}),
+      body: input.body,
+      messageType,
+    };
+    if (input.start || input.end) {
+      message.displayInterval = {
+        ...(input.start ? { start: { date: input.start } } : {}),
+        ...(input.end ? { end: { date: input.end } } : {}),
+      };
+    }
+
+    // Localized variants are only emitted when translations are supplied
+    const translations = input.translations || {};
+    if (input.header && translations.header) {
+      message.localizedHeader = createLocalizedObject(
+        input.header,
+        this.defaultLanguage,
+        translations.header,
+      );
+    }
+    if (translations.body) {
+      message.localizedBody = createLocalizedObject(
+        input.body,
+        this.defaultLanguage,
+        translations.body,
+      );
+    }
+
+    owner.messages = [...(owner.messages || []), message];
+    return this;
+  }
+
+  /**
+   * Remove a message from the object or class
+   */
+  removeMessage(id: string, target: 'object' | 'class' = 'object'): this {
+    const owner = this.getMessageOwner(target);
+    if (owner.messages) {
+      owner.messages = owner.messages.filter(message => message.id !== id);
+    }
+    return this;
+  }
+
+  /**
+   * Body for the addMessage endpoint, to push a message to an object or class that was
+   * already saved
+   */
+  getAddMessageRequest(id: string, target: 'object' | 'class' = 'object'): AddMessageRequest {
+    const message = (this.getMessageOwner(target).messages || []).find(entry => entry.id === id);
+    if (!message) {
+      throw new Error(`Message ${id} not found on the pass ${target}`);
+    }
+    return { message: cloneJson(message) };
+  }
+
+  /**
+   * Add links module
+   */
+  addLinks(links: LinkInput[]): this {
+    this.passObject.linksModuleData = {
+      uris: links.map(({ translations, ...link }) => ({
+        ...link,
+        ...(translations
+          ? {
+              localizedDescription: createLocalizedObject(
+                link.description,
+                this.defaultLanguage,
+                translations,
+              ),
+            }
+          : {}),
+      })),
+    };
+    return this;
+  }
+
+  /**
+   * Add locations
+   */
+  addLocations(locations: LatLongPoint[]): this {
+    this.passObject.locations = locations;
+    return this;
+  }
+
+  /**
+   * Set validity time interval
+   */
+  setValidTimeInterval(start: string, end?: string): this {
+    this.passObject.validTimeInterval = {
+      start: { date: start },
+    };
+
+    if (end) {
+      this.passObject.validTimeInterval.end = { date: end };
+    }
+
+    return this;
+  }
+
+  /**
+   * Add any custom field to the pass object
+   */
+  addCustomField(key: string, value: unknown): this {
+    (this.passObject as BasePassObject)[key] = value;
+    return this;
+  }
+
+  /**
+   * Generate signed JWT
+   *
+   * By default empty strings are replaced with placeholders before signing. With
+   * `strict: true` the pass is validated instead and a PassValidationError is thrown
+   * when any error diagnostics exist; the pass data is never modified.
+   */
+  generateJwt(origins: string[] = [], options: GenerateJwtOptions = {}): string {
+    this.assertSigningCredentials();
+    this.prepareForSigning(options);
+    return this.signWalletPayload(this.getWalletPayload(), origins);
+  }
+
+  /**
+   * Generate signed JWT, supporting asynchronous signers such as a remote KMS
+   */
+  async generateJwtAsync(
+    origins: string[] = [],
+    options: GenerateJwtOptions = {},
+  ): Promise<string> {
+    this.assertSigningCredentials();
+    this.prepareForSigning(options);
+    return this.signWalletPayloadAsync(this.getWalletPayload(), origins);
+  }
+
+  /**
+   * Validate the pass (strict) or fill in placeholders before it is signed
+   */
+  prepareForSigning(options: GenerateJwtOptions = {}): void {
+    if (options.strict) {
+      const result = this.validate();
+      if (!result.valid) {
+        throw new PassValidationError(result.diagnostics);
+      }
+    } else {
+      // Validate all localized strings before generating the JWT
+      this.applyPlaceholders();
+    }
+  }
+
+  /**
+   * Sign an arbitrary wallet payload with this pass's service account credentials
+   */
+  signWalletPayload(
+    walletPayload: WalletPayload | SkinnyWalletPayload,
+    origins: string[] = [],
+  ): string {
+    this.assertSigningCredentials();
+
+    if (this.signer) {
+      return signJwt(this.buildJwtPayload(origins, walletPayload), this.signer);
+    }
+    return jwt.sign(this.buildJwtPayload(origins, walletPayload), this.privateKey as string, {
+      algorithm: 'RS256',
+      ...(this.privateKeyId ? { keyid: this.privateKeyId } : {}),
+    });
+  }
+
+  /**
+   * Sign an arbitrary wallet payload, supporting asynchronous signers
+   */
+  async signWalletPayloadAsync(
+    walletPayload: WalletPayload | SkinnyWalletPayload,
+    origins: string[] = [],
+  ): Promise<string> {
+    this.assertSigningCredentials();
+
+    if (this.signer) {
+      return signJwtAsync(this.buildJwtPayload(origins, walletPayload), this.signer);
+    }
+    return this.signWalletPayload(walletPayload, origins);
+  }
+
+  /**
+   * Generate "Add to Google Wallet" link, warning (or failing) when it is too long
+   */
+  generateAddToWalletLink(origins: string[] = [], options: SaveLinkOptions = {}): string {
+    const token = this.generateJwt(origins, options);
+    return buildSaveLink(token, options);
+  }
+
+  /**
+   * Generate "Add to Google Wallet" link, supporting asynchronous signers
+   */
+  async generateAddToWalletLinkAsync(
+    origins: string[] = [],
+    options: SaveLinkOptions = {},
+  ): Promise<string> {
+    const token = await this.generateJwtAsync(origins, options);
+    return buildSaveLink(token, options);
+  }
+
+  /**
+   * Generate a skinny JWT that references the object by id. The object and class must
+   * already have been inserted, e.g. with insertIntoWallet.
+   */
+  generateSkinnyJwt(origins: string[] = []): string {
+    return this.signWalletPayload(this.getSkinnyWalletPayload(), origins);
+  }
+
+  /**
+   * Insert (or replace) the class and object through the Wallet Objects API
+   */
+  async insertIntoWallet(
+    client: GoogleWalletClient = this.createWalletClient(),
+    options: GenerateJwtOptions = {},
+  ): Promise<void> {
+    this.prepareForSigning(options);
+
+    if (this.passClass) {
+      await client.upsertClass(this.passClass, this.vertical);
+    }
+    await client.upsertObject(this.passObject, this.vertical);
+  }
+
+  /**
+   * Send the current state to an object that was already saved, through the objects PATCH endpoint
+   */
+  async patchStateInWallet(
+    client: GoogleWalletClient = this.createWalletClient(),
+  ): Promise<TObject> {
+    const patch = this.getStatePatch() as Partial<TObject>;
+    return client.patchObject<TObject>(this.passObject.id, patch, this.vertical);
+  }
+
+  /**
+   * Push one of the pass's messages to the saved object or class through the addMessage endpoint
+   */
+  async sendMessageToWallet(
+    id: string,
+    target: 'object' | 'class' = 'object',
+    client: GoogleWalletClient = this.createWalletClient(),
+  ): Promise<void> {
+    const request = this.getAddMessageRequest(id, target);
+    if (target === 'class') {
+      const classId = this.requirePassClass('sending messages').id;
+      await client.addClassMessage(classId, request, this.vertical);
+    } else {
+      await client.addObjectMessage(this.passObject.id, request, this.vertical);
+    }
+  }
+
+  /**
+   * Generate a save link, falling back to a skinny JWT when the full link is too long.
+   * The fallback inserts the object and class through the API client first. Both links are
+   * signed through the async path, so asynchronous signers work too.
+   */
+  async generateAddToWalletLinkWithFallback(
+    origins: string[] = [],
+    options: SkinnyFallbackOptions = {},
+  ): Promise<string> {
+    const link = await this.generateAddToWalletLinkAsync(origins, {
+      ...options,
+      onTooLong: 'ignore',
+    });
+    if (isSaveLinkWithinLimit(link, options)) {
+      return link;
+    }
+
+    await this.insertIntoWallet(options.client || this.createWalletClient(), options);
+    const skinnyJwt = await this.signWalletPayloadAsync(this.getSkinnyWalletPayload(), origins);
+    return buildSaveLink(skinnyJwt, options);
+  }
+
+  /**
+   * Create a Wallet Objects API client that reuses this pass's service account credentials,
+   * or its signer
+   */
+  createWalletClient(
+    options: Omit<GoogleWalletClientOptions, 'credentials'> = {},
+  ): GoogleWalletClient {
+    if (!this.serviceAccountEmail || (!this.privateKey && !this.signer)) {
+      throw new Error('Service account credentials not set');
+    }
+
+    const serviceAccountEmail = this.serviceAccountEmail;
+    return new GoogleWalletClient({
+      ...options,
+      credentials: this.signer
+        ? { serviceAccountEmail, signer: this.signer }
+        : {
+            serviceAccountEmail,
+            privateKey: this.privateKey as string,
+            ...(this.privateKeyId ? { privateKeyId: this.privateKeyId } : {}),
+          },
+    });
+  }
+
+  /**
+   * Debug function to log generated payload
+   */
+  debugPayload(): void {
+    if (!this.serviceAccountEmail || (!this.privateKey && !this.signer)) {
+      console.log('Service account not configured');
+      return;
+    }
+
+    try {
+      this.applyPlaceholders();
+      console.log('JWT payload:', JSON.stringify(this.buildJwtPayload([]), null, 2));
+    } catch (error) {
+      console.error('Error preparing payload:', error);
+    }
+  }
+
+  /**
+   * Get the pass object
+   */
+  getPassObject(): TObject {
+    return this.passObject;
+  }
+
+  /**
+   * Get the pass class
+   */
+  getPassClass(): TClass | undefined {
+    return this.passClass;
+  }
+
+  /**
+   * Objects and classes this pass contributes to a save-to-wallet JWT
+   */
+  getWalletPayload(): WalletPayload {
+    return {
+      [`${this.vertical}Objects`]: [this.passObject],
+      ...(this.passClass ? { [`${this.vertical}Classes`]: [this.passClass] } : {}),
+    };
+  }
+
+  /**
+   * Get the skinny JWT payload, which only references the object by id
+   */
+  getSkinnyWalletPayload(): SkinnyWalletPayload {
+    return {
+      [`${this.vertical}Objects`]: [{ id: this.passObject.id, classId: this.passObject.classId }],
+    };
+  }
+
+  /**
+   * Derive a new pass from this one, used as a template. The object and class are deep
+   * copied, the object gets a new pass id, and credentials are reused without reloading.
+   */
+  clone(passId: string, overrides: Partial<Omit<TObject, 'id' | 'classId'>> = {}): this {
+    const [issuerId, classId] = splitResourceId(this.passObject.classId);
+    const PassType = this.constructor as new (...ids: [string, string, string]) => this;
+    const pass = new PassType(issuerId, passId, classId);
+
+    // restoreResources deep copies, so nothing is shared with the template
+    pass.restoreResources(
+      { ...this.passObject, ...overrides, id: `${issuerId}.${passId}` },
+      this.passClass,
+    );
+    pass.serviceAccountEmail = this.serviceAccountEmail;
+    pass.privateKey = this.privateKey;
+    pass.privateKeyId = this.privateKeyId;
+    pass.signer = this.signer;
+    pass.defaultLanguage = this.defaultLanguage;
+    return pass;
+  }
+
+  /**
+   * Serialize the builder state as plain JSON. The private key is never included.
+   */
+  toJSON(): SerializedWalletPass<TObject, TClass> {
+    const [issuerId, passId] = splitResourceId(this.passObject.id);
+
+    return {
+      version: PASS_JSON_VERSION,
+      vertical: this.vertical,
+      issuerId,
+      passId,
+      classId: splitResourceId(this.passObject.classId)[1],
+      defaultLanguage: this.defaultLanguage,
+      ...(this.serviceAccountEmail ? { serviceAccountEmail: this.serviceAccountEmail } : {}),
+      passObject: cloneJson(this.passObject),
+      ...(this.passClass ? { passClass: cloneJson(this.passClass) } : {}),
+    };
+  }
+
+  /**
+   * Helper to restore builder state written by toJSON
+   */
+  protected restoreJSON(json: SerializedWalletPass<TObject, TClass>): this {
+    if (json.version > PASS_JSON_VERSION) {
+      throw new Error(`Unsupported pass JSON version ${json.version}`);
+    }
+    if (json.vertical !== this.vertical) {
+      throw new Error(`Expected a ${this.vertical} pass but got ${json.vertical}`);
+    }
+
+    this.restoreResources(json.passObject, json.passClass);
+    this.defaultLanguage = json.defaultLanguage || DEFAULT_LANGUAGE;
+    this.serviceAccountEmail = json.serviceAccountEmail;
+    return this;
+  }
+
+  /**
+   * Helper to replace the object and class with copies of existing resources
+   */
+  protected restoreResources(passObject: TObject, passClass?: TClass): this {
+    this.passObject = cloneJson(passObject);
+    this.passClass = passClass ? cloneJson(passClass) : undefined;
+    return this;
+  }
+
+  /**
+   * Helper to build the unsigned JWT claims
+   */
+  protected buildJwtPayload(
+    origins: string[],
+    walletPayload: WalletPayload | SkinnyWalletPayload = this.getWalletPayload(),
+  ): JwtPayload {
+    return {
+      iss: this.serviceAccountEmail as string,
+      aud: 'google',
+      typ: 'savetowallet',
+      iat: Math.floor(Date.now() / 1000),
+      origins,
+      payload: walletPayload,
+    };
+  }
+
+  /**
+   * Helper to ensure a private key or signer is available before signing
+   */
+  private assertSigningCredentials(): void {
+    if (!this.serviceAccountEmail || (!this.privateKey && !this.signer)) {
+      throw new Error('Service account credentials not set');
+    }
+  }
+
+  /**
+   * Helper to ensure the class exists before setting class-level fields
+   */
+  protected requirePassClass(action: string): TClass {
+    if (!this.passClass) {
+      throw new Error(`Pass class must be created before ${action}`);
+    }
+    return this.passClass;
+  }
+
+  /**
+   * Helper to pick the object or class that holds messages
+   */
+  private getMessageOwner(target: 'object' | 'class'): BasePassObject | BasePassClass {
+    return target === 'class' ? this.requirePassClass('adding messages') : this.passObject;
+  }
+
+  /**
+   * Helper to create image objects
+   */
+  protected createImageObject(
+    imageUrl: string,
+    description?: string,
+    translations?: Translations,
+  ): ImageObject {
+    // The critical issue: Google Wallet REQUIRES a contentDescription
+    // for all images, even when no description is provided
+    return {
+      sourceUri: {
+        uri: imageUrl,
+      },
+      // Always include contentDescription, regardless if description is provided
+      contentDescription: createLocalizedObject(
+        description || 'Image', // Default value if no description provided
+        this.defaultLanguage,
+        translations,
+      ),
+    };
+  }
+
+  /**
+   * Helper to substitute placeholders for empty strings (non-strict signing only)
+   */
+  protected ensureNonEmptyString(value: string | undefined, fallback: string): string {
+    if (!value || value.trim() === '') {
+      return fallback;
+    }
+    return value;
+  }
+
+  /**
+   * Patch the shared object and class fields in place before generating a non-strict JWT.
+   * Subclasses extend this for their vertical-specific localized fields.
+   */
+  protected applyPlaceholders(): void {
+    // Validate text modules
+    if (this.passObject.textModulesData) {
+      this.passObject.textModulesData = this.passObject.textModulesData.map(module => ({
+        ...module,
+        body: this.ensureNonEmptyString(module.body, `Info ${module.id}`),
+        header: module.header
+          ? this.ensureNonEmptyString(module.header, `Section ${module.id}`)
+          : undefined,
+      }));
+    }
+
+    // Validate links
+    if (this.passObject.linksModuleData && this.passObject.linksModuleData.uris) {
+      this.passObject.linksModuleData.uris = this.passObject.linksModuleData.uris.map(link => ({
+        ...link,
+        description: this.ensureNonEmptyString(link.description, `Link ${link.id}`),
+      }));
+    }
+
+    if (this.passObject.heroImage?.contentDescription?.defaultValue) {
+      this.passObject.heroImage.contentDescription.defaultValue.value = this.ensureNonEmptyString(
+        this.passObject.heroImage.contentDescription.defaultValue.value,
+        'Hero Image',
+      );
+    }
+
+    // Validate image modules
+    if (this.passObject.imageModulesData) {
+      this.passObject.imageModulesData.forEach(module => {
+        if (module.mainImage?.contentDescription?.defaultValue) {
+          module.mainImage.contentDescription.defaultValue.value = this.ensureNonEmptyString(
+            module.mainImage.contentDescription.defaultValue.value,
+            `Image ${module.id}`,
+          );
+        }
+      });
+    }
+
+    // Validate barcode alternate text
+    if (this.passObject.barcode?.alternateText) {
+      this.passObject.barcode.alternateText = this.ensureNonEmptyString(
+        this.passObject.barcode.alternateText,
+        'Scan this code',
+      );
+    }
+
+    // Validate app link data
+    const appLinkData = this.passObject.appLinkData;
+    if (appLinkData) {
+      const fallbacks = {
+        androidAppLinkInfo: 'Android App',
+        iosAppLinkInfo: 'iOS App',
+        webAppLinkInfo: 'Web App',
+      } as const;
+
+      (Object.keys(fallbacks) as (keyof typeof fallbacks)[]).forEach(key => {
+        const info = appLinkData[key];
+        if (!info) return;
+
+        info.title = this.ensureNonEmptyString(info.title, fallbacks[key]);
+
+        const logoDescription = info.appLogoImage?.contentDescription?.defaultValue;
+        if (logoDescription) {
+          logoDescription.value = this.ensureNonEmptyString(
+            logoDescription.value,
+            `${fallbacks[key]} Logo`,
+          );
+        }
+      });
+    }
+
+    // Also validate pass class if present
+    if (this.passClass) {
+      this.passClass.issuerName = this.ensureNonEmptyString(this.passClass.issuerName, 'Issuer');
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type { LocalizedObject } from './pass-types';
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+/**
+ * Map of BCP 47 language tag to translated value, e.g. { 'es-ES': 'Tarjeta', 'de-DE': 'Karte' }
+ */
+export type Translations = Record<string, string>;
+
+// Well-formed BCP 47 (RFC 5646) tag:
+// language[-script][-region][-variant]*[-extension]*[-privateuse]
+const LANGUAGE_TAG_PATTERN = new RegExp(
+  '^(?:' +
+    '(?:[a-z]{2,3}(?:-[a-z]{3}){0,3}|[a-z]{4,8})' + // language + optional extlang
+    '(?:-[a-z]{4})?' + // script
+    '(?:-(?:[a-z]{2}|\\d{3}))?' + // region
+    '(?:-(?:[a-z\\d]{5,8}|\\d[a-z\\d]{3}))*' + // variants
+    '(?:-[\\da-wy-z](?:-[a-z\\d]{2,8})+)*' + // extensions
+    '(?:-x(?:-[a-z\\d]{1,8})+)?' + // private use
+    '|x(?:-[a-z\\d]{1,8})+' + // private use only
+    ')$',
+  'i',
+);
+
+/**
+ * Check whether a string is a well-formed BCP 47 language tag
+ */
+export function isValidLanguageTag(tag: string): boolean {
+  return typeof tag === 'string' && LANGUAGE_TAG_PATTERN.test(tag);
+}
+
+/**
+ * Throw if the given language tag is not well-formed BCP 47
+ */
+export function assertValidLanguageTag(tag: string): void {
+  if (!isValidLanguageTag(tag)) {
+    throw new Error(`Invalid BCP 47 language tag: "${tag}"`);
+  }
+}
+
+/**
+ * Build a LocalizedObject with a default value and optional translated values
+ */
+export function createLocalizedObject(
+  value: string,
+  language: string = DEFAULT_LANGUAGE,
+  translations?: Translations,
+): LocalizedObject {
+  assertValidLanguageTag(language);
+
+  const localized: LocalizedObject = {
+    defaultValue: { language, value },
+  };
+
+  const translatedValues = Object.entries(translations || {}).map(([tag, translated]) => {
+    assertValidLanguageTag(tag);
+    return { language: tag, value: translated };
+  });
+
+  if (translatedValues.length > 0) {
+    localized.translatedValues = translatedValues;
+  }
+
+  return localized;
+}
@@ -0,0 +1,251 @@
+import { createPublicKey, verify } from 'crypto';
+
+/** Google's current root signing keys for pass callbacks, to be fetched and cached by the caller */
+export const GOOGLE_CALLBACK_KEYS_URL = 'https://pay.google.com/gp/m/issuer/keys';
+
+export const CALLBACK_PROTOCOL_VERSION = 'ECv2SigningOnly';
+
+/** Sender id Google signs pass callbacks with; the recipient id is the issuer id */
+export const CALLBACK_SENDER_ID = 'GooglePayPasses';
+
+export interface CallbackRootKey {
+  keyValue: string; // Base64 DER (SubjectPublicKeyInfo) ECDSA P-256 public key
+  protocolVersion: string;
+  keyExpiration?: string; // Epoch milliseconds
+}
+
+/**
+ * Body Google posts to the class's callback URL
+ */
+export interface SignedCallbackMessage {
+  protocolVersion: string;
+  signature: string;
+  intermediateSigningKey: {
+    signedKey: string; // JSON string of { keyValue, keyExpiration }
+    signatures: string[];
+  };
+  signedMessage: string; // JSON string of the event
+}
+
+export type PassCallbackEventType = 'save' | 'del';
+
+export interface PassCallbackEvent {
+  classId: string;
+  objectId: string;
+  eventType: PassCallbackEventType;
+  expTimeMillis: number;
+  count?: number;
+  nonce: string;
+}
+
+/**
+ * Remembers nonces until they expire, so replayed callbacks can be rejected
+ */
+export interface NonceStore {
+  // Returns false when the nonce was already seen
+  add(nonce: string, expiresAtMillis: number): boolean | Promise<boolean>;
+  // Forgets a nonce whose event could not be handled, so Google's retry is accepted
+  delete(nonce: string): void | Promise<void>;
+}
+
+export interface VerifyPassCallbackOptions {
+  issuerId: string; // Recipient id the message was signed for
+  rootKeys: CallbackRootKey[] | { keys: CallbackRootKey[] }; // From GOOGLE_CALLBACK_KEYS_URL
+  now?: number; // Epoch milliseconds to check expirations against, defaults to Date.now()
+}
+
+export interface PassCallbackHandlerOptions extends Omit<VerifyPassCallbackOptions, 'now'> {
+  nonceStore?: NonceStore; // Defaults to an in-memory store
+  onEvent: (event: PassCallbackEvent) => void | Promise<void>;
+}
+
+export class PassCallbackVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PassCallbackVerificationError';
+  }
+}
+
+/**
+ * In-memory nonce store; use a shared store (e.g. Redis) when running several instances
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  add(nonce: string, expiresAtMillis: number): boolean {
+    const now = Date.now();
+    this.nonces.forEach((expiresAt, seen) => {
+      if (expiresAt <= now) this.nonces.delete(seen);
+    });
+
+    if (this.nonces.has(nonce)) return false;
+    this.nonces.set(nonce, expiresAtMillis);
+    return true;
+  }
+
+  delete(nonce: string): void {
+    this.nonces.delete(nonce);
+  }
+}
+
+/**
+ * Verify a callback's ECv2SigningOnly signatures and expirations, and parse its event.
+ * Replay protection needs state, so it is left to createPassCallbackHandler.
+ */
+export function verifyPassCallback(
+  body: string | SignedCallbackMessage,
+  options: VerifyPassCallbackOptions,
+): PassCallbackEvent {
+  const now = options.now ?? Date.now();
+  const message = parseJson<SignedCallbackMessage>(body, 'callback body');
+  if (!isWellFormed(message)) {
+    throw new PassCallbackVerificationError('Malformed callback message');
+  }
+
+  if (message.protocolVersion !== CALLBACK_PROTOCOL_VERSION) {
+    throw new PassCallbackVerificationError(
+      `Unsupported protocol version "${message.protocolVersion}", ` +
+        `expected "${CALLBACK_PROTOCOL_VERSION}"`,
+    );
+  }
+
+  // The intermediate key must be signed by one of Google's current root keys
+  const { signedKey, signatures } = message.intermediateSigningKey;
+  const rootKeys = (Array.isArray(options.rootKeys) ? options.rootKeys : options.rootKeys.keys)
+    .filter(key => key.protocolVersion === CALLBACK_PROTOCOL_VERSION)
+    .filter(key => !key.keyExpiration || Number(key.keyExpiration) > now);
+  if (rootKeys.length === 0) {
+    throw new PassCallbackVerificationError('No unexpired ECv2SigningOnly root keys supplied');
+  }
+
+  const signedKeyData = signedString(['Google', CALLBACK_PROTOCOL_VERSION, signedKey]);
+  const keySigned = rootKeys.some(rootKey =>
+    signatures.some(signature => verifySignature(rootKey.keyValue, signedKeyData, signature)),
+  );
+  if (!keySigned) {
+    throw new PassCallbackVerificationError('Intermediate signing key signature is invalid');
+  }
+
+  const intermediateKey = parseJson<{ keyValue: string; keyExpiration: string }>(
+    signedKey,
+    'intermediate signing key',
+  );
+  if (!(Number(intermediateKey.keyExpiration) > now)) {
+    throw new PassCallbackVerificationError('Intermediate signing key has expired');
+  }
+
+  const messageData = signedString([
+    CALLBACK_SENDER_ID,
+    options.issuerId,
+    CALLBACK_PROTOCOL_VERSION,
+    message.signedMessage,
+  ]);
+  if (!verifySignature(intermediateKey.keyValue, messageData, message.signature)) {
+    throw new PassCallbackVerificationError('Message signature is invalid');
+  }
+
+  const event = parseJson<PassCallbackEvent>(message.signedMessage, 'signed message');
+  if (event.eventType !== 'save' && event.eventType !== 'del') {
+    throw new PassCallbackVerificationError(`Unsupported event type "${event.eventType}"`);
+  }
+  if (!event.nonce) {
+    throw new PassCallbackVerificationError('Signed message has no nonce');
+  }
+  if (!(Number(event.expTimeMillis) > now)) {
+    throw new PassCallbackVerificationError('Signed message has expired');
+  }
+
+  return { ...event, expTimeMillis: Number(event.expTimeMillis) };
+}
+
+/**
+ * Create a framework-agnostic callback handler: pass it the raw request body and it verifies
+ * the message, rejects replayed nonces and hands the event to onEvent. Verification failures
+ * throw a PassCallbackVerificationError, which should be answered with a 4xx status.
+ */
+export function createPassCallbackHandler(
+  options: PassCallbackHandlerOptions,
+): (body: string | SignedCallbackMessage) => Promise<PassCallbackEvent> {
+  const nonceStore = options.nonceStore || new MemoryNonceStore();
+
+  return async body => {
+    const event = verifyPassCallback(body, options);
+
+    if (!(await nonceStore.add(event.nonce, event.expTimeMillis))) {
+      throw new PassCallbackVerificationError(`Nonce "${event.nonce}" was already used`);
+    }
+
+    try {
+      await options.onEvent(event);
+    } catch (error) {
+      // Let Google's retry of this message through
+      await nonceStore.delete(event.nonce);
+      throw error;
+    }
+    return event;
+  };
+}
+
+/**
+ * Helper to check the parts of an untrusted callback body that are signed or verified are
+ * strings, before they reach the crypto functions
+ */
+function isWellFormed(message: SignedCallbackMessage): boolean {
+  const { intermediateSigningKey: key } = message;
+  return (
+    typeof message.protocolVersion === 'string' &&
+    typeof message.signature === 'string' &&
+    typeof message.signedMessage === 'string' &&
+    !!key &&
+    typeof key === 'object' &&
+    typeof key.signedKey === 'string' &&
+    Array.isArray(key.signatures) &&
+    key.signatures.every(signature => typeof signature === 'string')
+  );
+}
+
+/**
+ * Helper to join values the way ECv2SigningOnly signs them: each value prefixed by its
+ * byte length as a 4-byte little-endian integer
+ */
+function signedString(values: string[]): Buffer {
+  return Buffer.concat(
+    values.map(value => {
+      const bytes = Buffer.from(value, 'utf8');
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(bytes.length, 0);
+      return Buffer.concat([length, bytes]);
+    }),
+  );
+}
+
+/**
+ * Helper to check a base64 DER ECDSA-SHA256 signature against a base64 DER public key
+ */
+function verifySignature(publicKey: string, data: Buffer, signature: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.from(publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify('sha256', data, key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Helper to parse JSON strings, reporting which part of the callback was malformed
+ */
+function parseJson<T>(value: unknown, name: string): T {
+  if (value && typeof value === 'object') return value as T;
+
+  try {
+    const parsed = JSON.parse(String(value));
+    if (parsed && typeof parsed === 'object') return parsed as T;
+  } catch {
+    // Reported below
+  }
+  throw new PassCallbackVerificationError(`Malformed ${name}`);
+}
@@ -0,0 +1,55 @@
+import type { ObjectState } from './enums';
+import type { TimeInterval } from './pass-types';
+
+/**
+ * Body for the objects PATCH endpoint after a state change
+ */
+export interface ObjectStatePatch {
+  state: ObjectState;
+  validTimeInterval?: TimeInterval;
+}
+
+/**
+ * States each state may move to. Passes without a state are treated as ACTIVE.
+ * COMPLETED is final; expired passes can be renewed and inactive passes reactivated.
+ */
+export const OBJECT_STATE_TRANSITIONS: Record<ObjectState, readonly ObjectState[]> = {
+  STATE_UNSPECIFIED: ['ACTIVE', 'COMPLETED', 'EXPIRED', 'INACTIVE'],
+  ACTIVE: ['COMPLETED', 'EXPIRED', 'INACTIVE'],
+  EXPIRED: ['ACTIVE'],
+  INACTIVE: ['ACTIVE'],
+  COMPLETED: [],
+};
+
+export class PassStateTransitionError extends Error {
+  readonly from: ObjectState;
+  readonly to: ObjectState;
+
+  constructor(from: ObjectState, to: ObjectState) {
+    const allowed = OBJECT_STATE_TRANSITIONS[from];
+    super(
+      `Cannot move a pass from ${from} to ${to}, ` +
+        (allowed.length ? `expected one of: ${allowed.join(', ')}` : `${from} is final`),
+    );
+    this.name = 'PassStateTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Whether a pass may move between two states. Staying in the same state is always allowed.
+ */
+export function canTransitionState(from: ObjectState | undefined, to: ObjectState): boolean {
+  const current = from || 'ACTIVE';
+  return current === to || OBJECT_STATE_TRANSITIONS[current].includes(to);
+}
+
+/**
+ * Throw a PassStateTransitionError when a pass may not move between two states
+ */
+export function assertStateTransition(from: ObjectState | undefined, to: ObjectState): void {
+  if (!canTransitionState(from, to)) {
+    throw new PassStateTransitionError(from || 'ACTIVE', to);
+  }
+}
@@ -0,0 +1,281 @@
+import { escapeHtml } from './html';
+import type { GenericPassSpec } from './pass-spec';
+import type { Money } from './pass-types';
+
+/**
+ * Per-holder values that placeholders such as {{ member.firstName }} are resolved against
+ */
+export type MergeData = Record<string, unknown>;
+
+export interface FormatOptions {
+  locale: string; // BCP 47 locale for dates and numbers
+  timeZone: string; // IANA time zone dates are shown in
+  currency?: string; // ISO 4217 code for the currency helper when none is given
+}
+
+/**
+ * Formats a placeholder value, e.g. {{ points | number:0 }} calls number(points, '0', ...)
+ */
+export type MergeHelper = (
+  value: unknown,
+  arg: string | undefined,
+  format: FormatOptions,
+) => unknown;
+
+export interface MergeOptions extends Partial<FormatOptions> {
+  escape?: 'html' | ((value: string) => string); // Applied to every substituted value
+  helpers?: Record<string, MergeHelper>; // Extra helpers, or replacements for the built-in ones
+}
+
+export interface MissingVariable {
+  variable: string;
+  path?: string; // Spec field the placeholder is in, e.g. "object.header"
+}
+
+/**
+ * Thrown when placeholders refer to values missing from the data. Every missing variable is
+ * listed, not just the first.
+ */
+export class MissingVariablesError extends Error {
+  readonly missing: MissingVariable[];
+  readonly variables: string[];
+
+  constructor(missing: MissingVariable[]) {
+    const variables = Array.from(new Set(missing.map(entry => entry.variable)));
+    super(
+      `Missing template variable(s): ${variables.join(', ')}` +
+        missing
+          .filter(entry => entry.path)
+          .map(entry => `\n  ${entry.path}: ${entry.variable}`)
+          .join(''),
+    );
+    this.name = 'MissingVariablesError';
+    this.missing = missing;
+    this.variables = variables;
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\\?\{\{([^{}]*)\}\}/g;
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'];
+
+/** The built-in helpers: date, number, currency, upper, lower and default */
+export const MERGE_HELPERS: Record<string, MergeHelper> = {
+  // {{ joined | date:long }}, with short, medium (default), long, full or iso
+  date: (value, style = 'medium', format) => {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Cannot format ${JSON.stringify(value)} as a date`);
+    }
+    if (style === 'iso') return date.toISOString();
+    if (!DATE_STYLES.includes(style)) {
+      throw new Error(`Unknown date style "${style}", expected iso or ${DATE_STYLES.join(', ')}`);
+    }
+    // dateStyle is missing from the es2018 Intl typings
+    const options = { dateStyle: style, timeZone: format.timeZone } as Intl.DateTimeFormatOptions;
+    return new Intl.DateTimeFormat(format.locale, options).format(date);
+  },
+
+  // {{ points | number }}, or {{ points | number:2 }} for a fixed number of decimals
+  number: (value, digits, format) => {
+    const fractionDigits = digits === undefined ? undefined : Number(digits);
+    return new Intl.NumberFormat(format.locale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(toNumber(value));
+  },
+
+  // {{ balance | currency:EUR }}; Money values carry their own currency code
+  currency: (value, code, format) => {
+    const money = value as Money;
+    const isMoney = !!money && typeof money === 'object' && 'micros' in money;
+    const currency = isMoney ? money.currencyCode : code || format.currency;
+    if (!currency) {
+      throw new Error('No currency code given, e.g. {{ amount | currency:USD }}');
+    }
+    const amount = isMoney ? toNumber(money.micros) / 1e6 : toNumber(value);
+    return new Intl.NumberFormat(format.locale, { style: 'currency', currency }).format(amount);
+  },
+
+  upper: value => String(value).toLocaleUpperCase(),
+  lower: value => String(value).toLocaleLowerCase(),
+
+  // {{ member.nickname | default:Friend }}
+  default: (value, fallback = '') => (value === undefined || value === null ? fallback : value),
+};
+
+/**
+ * List the variables a template string refers to, e.g. ["member.firstName"]
+ */
+export function findTemplateVariables(template: string): string[] {
+  const variables: string[] = [];
+  template.replace(PLACEHOLDER_PATTERN, (match, expression: string) => {
+    if (!match.startsWith('\\')) variables.push(expression.split('|')[0].trim());
+    return match;
+  });
+  return Array.from(new Set(variables));
+}
+
+/**
+ * Replace the placeholders in a template string. Write \{{ for literal braces.
+ */
+export function renderTemplate(
+  template: string,
+  data: MergeData,
+  options: MergeOptions = {},
+): string {
+  const missing: MissingVariable[] = [];
+  const output = renderString(template, data, resolveOptions(options), missing);
+  if (missing.length) {
+    throw new MissingVariablesError(missing);
+  }
+  return output;
+}
+
+/**
+ * Resolve the placeholders in every text field of a pass design. The locale defaults to the
+ * design's default language.
+ */
+export function mergePassSpec(
+  design: GenericPassSpec,
+  data: MergeData,
+  options: MergeOptions = {},
+): GenericPassSpec {
+  const resolved = resolveOptions({ ...options, locale: options.locale || design.defaultLanguage });
+  const missing: MissingVariable[] = [];
+
+  const merge = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      return renderString(value, data, resolved, missing, path);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => merge(item, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      const merged: Record<string, unknown> = {};
+      Object.entries(value).forEach(([key, entry]) => {
+        merged[key] = key === '$schema' ? entry : merge(entry, path ? `${path}.${key}` : key);
+      });
+      return merged;
+    }
+    return value;
+  };
+
+  const spec = merge(design, '') as GenericPassSpec;
+  if (missing.length) {
+    throw new MissingVariablesError(missing);
+  }
+  return spec;
+}
+
+type ResolvedMergeOptions = FormatOptions & {
+  escape: (value: string) => string;
+  helpers: Record<string, MergeHelper>;
+};
+
+/**
+ * Helper to fill in the defaults of the merge options
+ */
+function resolveOptions(options: MergeOptions): ResolvedMergeOptions {
+  const { escape } = options;
+  return {
+    locale: options.locale || 'en-US',
+    timeZone: options.timeZone || 'UTC',
+    currency: options.currency,
+    escape: escape === 'html' ? escapeHtml : escape || (value => value),
+    helpers: { ...MERGE_HELPERS, ...options.helpers },
+  };
+}
+
+/**
+ * Helper to render one string, collecting missing variables instead of throwing
+ */
+function renderString(
+  template: string,
+  data: MergeData,
+  options: ResolvedMergeOptions,
+  missing: MissingVariable[],
+  path?: string,
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, expression: string) => {
+    if (match.startsWith('\\')) return match.slice(1);
+
+    const [variable, ...pipes] = expression.split('|').map(part => part.trim());
+    let value = lookupVariable(data, variable);
+
+    try {
+      pipes.forEach(pipe => {
+        const separator = pipe.indexOf(':');
+        const name = separator === -1 ? pipe : pipe.slice(0, separator).trim();
+        const arg = separator === -1 ? undefined : unquote(pipe.slice(separator + 1).trim());
+        const helper = options.helpers[name];
+        if (!helper) {
+          throw new Error(`Unknown template helper "${name}"`);
+        }
+        // Only default is given missing values
+        if ((value !== undefined && value !== null) || name === 'default') {
+          value = helper(value, arg, options);
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot render ${match}${path ? ` in ${path}` : ''}: ${message}`);
+    }
+
+    if (value === undefined || value === null) {
+      missing.push({ variable, ...(path ? { path } : {}) });
+      return '';
+    }
+    return options.escape(stringify(value));
+  });
+}
+
+/**
+ * Helper to look up a variable such as "member.firstName" or "visits[0].date". Keys that
+ * contain dots or spaces, e.g. CSV column names, are matched as a whole first. Only own
+ * properties are read, so {{ constructor }} is missing rather than a built-in function.
+ */
+function lookupVariable(data: MergeData, variable: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(data, variable)) {
+    return data[variable];
+  }
+
+  return variable
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null &&
+        typeof value === 'object' &&
+        Object.prototype.hasOwnProperty.call(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data,
+    );
+}
+
+/**
+ * Helper to turn a substituted value into text
+ */
+function stringify(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Helper to convert a value for the number helpers
+ */
+function toNumber(value: unknown): number {
+  const number = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+  if (Number.isNaN(number)) {
+    throw new Error(`Cannot format ${JSON.stringify(value)} as a number`);
+  }
+  return number;
+}
+
+/**
+ * Helper to strip optional quotes around helper arguments, e.g. default:"Dear member"
+ */
+function unquote(arg: string): string {
+  return /^(["']).*\1$/.test(arg) ? arg.slice(1, -1) : arg;
+}
@@ -0,0 +1,268 @@
+import { renderBarcodeSvg } from './barcode-renderer';
+import { resolveFieldPath } from './field-paths';
+import type { GoogleGenericPass } from './google-generic-pass';
+import { escapeHtml } from './html';
+import type {
+  BarcodeObject,
+  CardRowTemplateInfo,
+  ImageObject,
+  LocalizedObject,
+  TemplateItem,
+} from './pass-types';
+
+export interface PassPreviewOptions {
+  language?: string; // Language to preview, defaults to the pass's default language
+  title?: string; // Document title, defaults to the card title
+}
+
+interface PreviewField {
+  label: string;
+  value: string;
+}
+
+const PREVIEW_STYLES = `
+  body { margin: 0; padding: 24px; background: #f1f3f4; font-family: Roboto, Arial, sans-serif; }
+  .wallet-preview { max-width: 400px; margin: 0 auto; }
+  .card { border-radius: 16px; overflow: hidden; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.3); }
+  .card-top { display: flex; align-items: center; gap: 12px; padding: 16px 16px 0; }
+  .logo { width: 36px; height: 36px; border-radius: 50%; object-fit: cover; background: #fff; }
+  .card-title { font-size: 14px; }
+  .card-body { padding: 16px; }
+  .subheader { font-size: 12px; opacity: 0.8; }
+  .header { font-size: 24px; margin: 2px 0 8px; }
+  .row { display: flex; justify-content: space-between; gap: 8px; margin-top: 12px; }
+  .row > div { flex: 1; }
+  .row > div:last-child:not(:first-child) { text-align: right; }
+  .label { font-size: 11px; opacity: 0.8; text-transform: uppercase; }
+  .value { font-size: 14px; }
+  .barcode { margin: 16px auto 0; padding: 12px; background: #fff; color: #202124;
+    border-radius: 8px; width: fit-content; text-align: center; }
+  .barcode svg { display: block; max-width: 200px; height: auto; margin: 0 auto; }
+  .alternate-text { font-size: 12px; margin-top: 4px; }
+  .hero { display: block; width: 100%; }
+  .details { margin-top: 16px; padding: 16px; border-radius: 16px; background: #fff;
+    color: #202124; }
+  .details h2 { font-size: 16px; margin: 0 0 8px; }
+  .details h3 { font-size: 12px; margin: 12px 0 2px; color: #5f6368; text-transform: uppercase; }
+  .details p { margin: 0; font-size: 14px; white-space: pre-wrap; }
+  .details img { display: block; max-width: 100%; margin-top: 12px; border-radius: 8px; }
+  .details a { display: block; margin-top: 8px; color: #1a73e8; }
+`;
+
+const DEFAULT_BACKGROUND = '#4285f4';
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Render a standalone HTML page approximating how a generic pass looks in Google Wallet:
+ * the card (logo, title, header, template rows, barcode, hero image) and its details view.
+ * The output is deterministic, so it can be used in snapshot tests.
+ */
+export function renderPassPreviewHtml(
+  pass: GoogleGenericPass,
+  options: PassPreviewOptions = {},
+): string {
+  const passObject = pass.getPassObject();
+  const passClass = pass.getPassClass();
+  const language = options.language || pass.getDefaultLanguage();
+  const text = (value?: LocalizedObject) => localize(value, language);
+
+  const color = passObject.hexBackgroundColor || passClass?.hexBackgroundColor || '';
+  const background = HEX_COLOR_PATTERN.test(color) ? color : DEFAULT_BACKGROUND;
+  const logo = passObject.logo || passClass?.logoImage;
+  const heroImage = passObject.heroImage || passClass?.heroImage;
+  const rows = passClass?.classTemplateInfo?.cardTemplateOverride?.cardRowTemplateInfos || [];
+
+  const itemField = (item?: TemplateItem): PreviewField | undefined => {
+    const fieldPath = item?.firstValue?.fields?.[0]?.fieldPath;
+    if (!fieldPath) return undefined;
+    return describeField(resolveFieldPath(fieldPath, passObject, passClass), language);
+  };
+
+  const card = [
+    `<section class="card" style="background-color: ${background}; ` +
+      `color: ${textColorFor(background)}">`,
+    '<div class="card-top">',
+    logo ? renderImage(logo, 'logo', language) : '',
+    `<div class="card-title">${escapeHtml(text(passObject.cardTitle))}</div>`,
+    '</div>',
+    '<div class="card-body">',
+    passObject.subheader
+      ? `<div class="subheader">${escapeHtml(text(passObject.subheader))}</div>`
+      : '',
+    `<div class="header">${escapeHtml(text(passObject.header))}</div>`,
+    ...rows.map(row => renderRow(row, itemField)),
+    passObject.barcode ? renderBarcode(passObject.barcode) : '',
+    '</div>',
+    heroImage ? renderImage(heroImage, 'hero', language) : '',
+    '</section>',
+  ];
+
+  const details = [
+    ...(passObject.textModulesData || []).map(module =>
+      renderDetail(
+        module.localizedHeader ? text(module.localizedHeader) : module.header || '',
+        module.localizedBody ? text(module.localizedBody) : module.body,
+      ),
+    ),
+    ...[...(passObject.customInfoModules || []), ...(passObject.additionalInfo || [])].map(
+      module => renderDetail(module.labelValue.label, module.labelValue.value),
+    ),
+    ...(passObject.imageModulesData || []).map(module =>
+      renderImage(module.mainImage, 'image-module', language),
+    ),
+    ...(passObject.linksModuleData?.uris || []).map(link => {
+      const description = escapeHtml(
+        link.localizedDescription ? text(link.localizedDescription) : link.description,
+      );
+      return isWebUri(link.uri)
+        ? `<a href="${escapeHtml(link.uri)}">${description}</a>`
+        : `<p>${description}</p>`;
+    }),
+  ];
+
+  const title = options.title || text(passObject.cardTitle) || 'Pass preview';
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(language)}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${PREVIEW_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main class="wallet-preview">',
+    ...card,
+    '<section class="details">',
+    `<h2>${escapeHtml(passClass?.issuerName || 'Details')}</h2>`,
+    ...details,
+    '</section>',
+    '</main>',
+    '</body>',
+    '</html>',
+  ]
+    .filter(line => line !== '')
+    .join('\n');
+}
+
+/**
+ * Helper to pick the translation for a language, falling back to the default value
+ */
+function localize(value: LocalizedObject | undefined, language: string): string {
+  if (!value) return '';
+  const translation = (value.translatedValues || []).find(entry => entry.language === language);
+  return (translation || value.defaultValue).value;
+}
+
+/**
+ * Helper to turn a resolved template field into a label and value
+ */
+function describeField(value: unknown, language: string): PreviewField | undefined {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return { label: '', value: String(value) };
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const field = value as Record<string, unknown>;
+  if (field.defaultValue) {
+    return { label: '', value: localize(field as unknown as LocalizedObject, language) };
+  }
+  if (typeof field.body === 'string') {
+    return {
+      label: field.localizedHeader
+        ? localize(field.localizedHeader as LocalizedObject, language)
+        : String(field.header || ''),
+      value: field.localizedBody
+        ? localize(field.localizedBody as LocalizedObject, language)
+        : field.body,
+    };
+  }
+  if (field.labelValue) {
+    const { label, value: text } = field.labelValue as PreviewField;
+    return { label, value: text };
+  }
+  return undefined;
+}
+
+/**
+ * Helper to render one card row of one, two or three template items
+ */
+function renderRow(
+  row: CardRowTemplateInfo,
+  itemField: (item?: TemplateItem) => PreviewField | undefined,
+): string {
+  const items = row.oneItem
+    ? [row.oneItem.item]
+    : row.twoItems
+    ? [row.twoItems.startItem, row.twoItems.endItem]
+    : [row.threeItems?.startItem, row.threeItems?.middleItem, row.threeItems?.endItem];
+
+  const cells = items.map(item => {
+    const field = itemField(item);
+    return field
+      ? `<div><div class="label">${escapeHtml(field.label)}</div>` +
+          `<div class="value">${escapeHtml(field.value)}</div></div>`
+      : '<div></div>';
+  });
+
+  return `<div class="row">${cells.join('')}</div>`;
+}
+
+/**
+ * Helper to render the barcode, falling back to its value for types that cannot be drawn
+ */
+function renderBarcode(barcode: BarcodeObject): string {
+  let symbol: string;
+  try {
+    symbol = renderBarcodeSvg({ ...barcode, alternateText: '' });
+  } catch {
+    symbol = `<div class="value">${escapeHtml(barcode.value)}</div>`;
+  }
+
+  const alternateText = barcode.alternateText
+    ? `<div class="alternate-text">${escapeHtml(barcode.alternateText)}</div>`
+    : '';
+  return `<div class="barcode">${symbol}${alternateText}</div>`;
+}
+
+/**
+ * Helper to render an image with its localized description as alt text
+ */
+function renderImage(image: ImageObject, className: string, language: string): string {
+  const description = escapeHtml(localize(image.contentDescription, language));
+  if (!isWebUri(image.sourceUri.uri)) {
+    return `<div class="${className}">${description}</div>`;
+  }
+  return `<img class="${className}" src="${escapeHtml(image.sourceUri.uri)}" alt="${description}">`;
+}
+
+/**
+ * Helper to check a URI is safe to link to or load, i.e. an http: or https: URL
+ */
+function isWebUri(uri: string): boolean {
+  try {
+    const { protocol } = new URL(uri);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Helper to render one labelled entry of the details view
+ */
+function renderDetail(label: string, value: string): string {
+  return `<div>${label ? `<h3>${escapeHtml(label)}</h3>` : ''}<p>${escapeHtml(value)}</p></div>`;
+}
+
+/**
+ * Helper to choose black or white text, like Wallet does, from the background luminance
+ */
+function textColorFor(hexColor: string): string {
+  const hex = hexColor.replace('#', '');
+  const full = hex.length === 3 ? hex.replace(/./g, digit => digit + digit) : hex;
+  const [red, green, blue] = [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16));
+
+  if ([red, green, blue].some(Number.isNaN)) return '#ffffff';
+  return red * 0.299 + green * 0.587 + blue * 0.114 > 160 ? '#202124' : '#ffffff';
+}
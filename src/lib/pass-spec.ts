@@ -0,0 +1,499 @@
+import {
+  BARCODE_RENDER_ENCODINGS,
+  BARCODE_TYPES,
+  BarcodeRenderEncoding,
+  BarcodeType,
+  GENERIC_TYPES,
+  GenericType,
+  REVIEW_STATUSES,
+  ReviewStatus,
+} from './enums';
+import { ClassTemplateBuilder } from './class-template';
+import type { GoogleGenericPass } from './google-generic-pass';
+import { ValidationContext, ValidationDiagnostic, ValidationResult } from './validation';
+
+/** Where the published schema for GenericPassSpec files can be referenced from */
+export const GENERIC_PASS_SPEC_SCHEMA_URL =
+  'https://unpkg.com/wallet-pass/schema/generic-pass-spec.schema.json';
+
+export interface ImageSpec {
+  uri: string;
+  description?: string;
+}
+
+/**
+ * A field path, or several fallback paths of which the first present one is shown
+ */
+export type TemplateFieldSpec = string | string[];
+
+export interface TemplateSpec {
+  cardRows?: TemplateFieldSpec[][]; // One to three items per row
+  barcodeSection?: {
+    firstTop?: TemplateFieldSpec;
+    firstBottom?: TemplateFieldSpec;
+    secondTop?: TemplateFieldSpec;
+  };
+  details?: TemplateFieldSpec[];
+  list?: { firstRow?: TemplateFieldSpec; secondRow?: TemplateFieldSpec };
+}
+
+export interface AppLinkSpec {
+  title: string;
+  targetUri: string;
+  description?: string;
+  logo?: ImageSpec;
+}
+
+/**
+ * Declarative description of a generic pass, e.g. kept as JSON or YAML in a config repo
+ */
+export interface GenericPassSpec {
+  $schema?: string;
+  issuerId: string;
+  passId: string;
+  classId: string;
+  defaultLanguage?: string;
+  class: {
+    issuerName: string;
+    reviewStatus?: ReviewStatus;
+    logo?: ImageSpec;
+    heroImage?: ImageSpec;
+    backgroundColor?: string;
+    callbackUrl?: string;
+    template?: TemplateSpec;
+  };
+  object: {
+    genericType?: GenericType;
+    backgroundColor?: string;
+    cardTitle: string;
+    header: string;
+    subheader?: string;
+    logo?: ImageSpec;
+    heroImage?: ImageSpec;
+    textModules?: { id: string; body: string; header?: string }[];
+    imageModules?: { id: string; uri: string; description?: string }[];
+    barcode?: {
+      value: string;
+      type?: BarcodeType;
+      alternateText?: string;
+      renderEncoding?: BarcodeRenderEncoding;
+    };
+    links?: { id: string; uri: string; description: string }[];
+    appLinks?: { android?: AppLinkSpec; ios?: AppLinkSpec; web?: AppLinkSpec };
+    grouping?: { groupingId: string; sortIndex?: number };
+    validity?: { start: string; end?: string };
+  };
+}
+
+/**
+ * The subset of JSON Schema used by the pass spec schema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'integer';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  enum?: readonly string[];
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * Thrown by GoogleGenericPass.fromSpec when a spec does not match the schema
+ */
+export class PassSpecError extends Error {
+  readonly diagnostics: ValidationDiagnostic[];
+
+  constructor(diagnostics: ValidationDiagnostic[]) {
+    super(
+      `Pass spec is invalid with ${diagnostics.length} error(s):\n` +
+        diagnostics.map(error => `  ${error.path}: ${error.message}`).join('\n'),
+    );
+    this.name = 'PassSpecError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+const text = (description: string): JsonSchema => ({ type: 'string', description });
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+const objectSchema = (
+  properties: Record<string, JsonSchema>,
+  required: string[] = [],
+  description?: string,
+): JsonSchema => ({
+  type: 'object',
+  ...(description ? { description } : {}),
+  properties,
+  ...(required.length ? { required } : {}),
+  additionalProperties: false,
+});
+
+/**
+ * JSON Schema (draft 2020-12) for GenericPassSpec, published as
+ * schema/generic-pass-spec.schema.json for IDE autocompletion
+ */
+export const GENERIC_PASS_SPEC_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: GENERIC_PASS_SPEC_SCHEMA_URL,
+  title: 'Google Wallet generic pass spec',
+  ...objectSchema(
+    {
+      $schema: text('Schema reference for editors'),
+      issuerId: text('Issuer id from the Google Pay & Wallet Console'),
+      passId: text('Object id suffix, unique per pass holder'),
+      classId: text('Class id suffix, shared by passes with the same design'),
+      defaultLanguage: text('BCP 47 language tag of the texts, defaults to en-US'),
+      class: objectSchema(
+        {
+          issuerName: text('Name shown as the pass issuer'),
+          reviewStatus: { enum: REVIEW_STATUSES },
+          logo: ref('image'),
+          heroImage: ref('image'),
+          backgroundColor: ref('color'),
+          callbackUrl: {
+            type: 'string',
+            pattern: '^https://',
+            description: 'HTTPS URL Google posts save and delete events to',
+          },
+          template: ref('template'),
+        },
+        ['issuerName'],
+        'The pass class, shared by every pass with this design',
+      ),
+      object: objectSchema(
+        {
+          genericType: { enum: GENERIC_TYPES },
+          backgroundColor: ref('color'),
+          cardTitle: text('Title at the top of the card'),
+          header: text('Main text of the card, e.g. the holder name'),
+          subheader: text('Text above the header'),
+          logo: ref('image'),
+          heroImage: ref('image'),
+          textModules: {
+            type: 'array',
+            items: objectSchema(
+              { id: ref('id'), header: { type: 'string' }, body: { type: 'string' } },
+              ['id', 'body'],
+            ),
+          },
+          imageModules: {
+            type: 'array',
+            items: objectSchema(
+              { id: ref('id'), uri: ref('uri'), description: { type: 'string' } },
+              ['id', 'uri'],
+            ),
+          },
+          barcode: objectSchema(
+            {
+              value: text('Encoded barcode value'),
+              type: { enum: BARCODE_TYPES },
+              alternateText: text('Text shown below the barcode'),
+              renderEncoding: { enum: BARCODE_RENDER_ENCODINGS },
+            },
+            ['value'],
+          ),
+          links: {
+            type: 'array',
+            items: objectSchema(
+              { id: ref('id'), uri: ref('uri'), description: { type: 'string' } },
+              ['id', 'uri', 'description'],
+            ),
+          },
+          appLinks: objectSchema({
+            android: ref('appLink'),
+            ios: ref('appLink'),
+            web: ref('appLink'),
+          }),
+          grouping: objectSchema(
+            {
+              groupingId: text('Passes with the same grouping id are grouped in Wallet'),
+              sortIndex: { type: 'integer', minimum: 0 },
+            },
+            ['groupingId'],
+          ),
+          validity: objectSchema(
+            { start: ref('dateTime'), end: ref('dateTime') },
+            ['start'],
+            'When the pass is valid',
+          ),
+        },
+        ['cardTitle', 'header'],
+        'The pass object, holding the holder specific details',
+      ),
+    },
+    ['issuerId', 'passId', 'classId', 'class', 'object'],
+  ),
+  $defs: {
+    id: { type: 'string', minLength: 1 },
+    uri: { type: 'string', minLength: 1, description: 'Absolute URI' },
+    color: { type: 'string', pattern: '^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$' },
+    dateTime: text('ISO 8601 date-time with an offset, e.g. 2025-01-01T00:00:00Z'),
+    image: objectSchema(
+      { uri: ref('uri'), description: text('Accessibility description') },
+      ['uri'],
+    ),
+    appLink: objectSchema(
+      {
+        title: { type: 'string' },
+        targetUri: ref('uri'),
+        description: { type: 'string' },
+        logo: ref('image'),
+      },
+      ['title', 'targetUri'],
+    ),
+    field: {
+      description: 'Field path, e.g. "object.textModulesData[\'points\']", or fallback paths',
+      anyOf: [
+        { type: 'string', minLength: 1 },
+        { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+      ],
+    },
+    template: objectSchema(
+      {
+        cardRows: {
+          type: 'array',
+          description: 'Card rows of one to three fields each',
+          items: { type: 'array', items: ref('field'), minItems: 1, maxItems: 3 },
+        },
+        barcodeSection: objectSchema({
+          firstTop: ref('field'),
+          firstBottom: ref('field'),
+          secondTop: ref('field'),
+        }),
+        details: { type: 'array', items: ref('field') },
+        list: objectSchema({ firstRow: ref('field'), secondRow: ref('field') }),
+      },
+      [],
+      'Layout of the class template',
+    ),
+  },
+};
+
+/**
+ * Check a spec against the pass spec schema, reporting every mismatch with its path
+ */
+export function validatePassSpec(spec: unknown): ValidationResult {
+  const context = new ValidationContext();
+  checkSchema(spec, GENERIC_PASS_SPEC_SCHEMA, '', context);
+  return context.result();
+}
+
+/**
+ * Throw a PassSpecError unless the spec matches the pass spec schema
+ */
+export function assertValidPassSpec(spec: unknown): asserts spec is GenericPassSpec {
+  const { valid, diagnostics } = validatePassSpec(spec);
+  if (!valid) {
+    throw new PassSpecError(diagnostics);
+  }
+}
+
+/**
+ * Apply a spec to a pass by calling the matching builder methods. Use
+ * GoogleGenericPass.fromSpec to check the spec against the schema first.
+ */
+export function applyPassSpec(pass: GoogleGenericPass, spec: GenericPassSpec): GoogleGenericPass {
+  const { class: passClass, object } = spec;
+
+  if (spec.defaultLanguage) pass.setDefaultLanguage(spec.defaultLanguage);
+  pass.setPassClassWithDetails(
+    passClass.issuerName,
+    passClass.reviewStatus,
+    passClass.logo?.uri,
+    passClass.logo?.description,
+    passClass.heroImage?.uri,
+    passClass.heroImage?.description,
+    passClass.backgroundColor,
+  );
+  if (passClass.callbackUrl) pass.setCallbackUrl(passClass.callbackUrl);
+  if (passClass.template) pass.setClassTemplateInfo(buildTemplate(passClass.template));
+
+  pass
+    .setBasicInfo(object.genericType || 'GENERIC_TYPE_UNSPECIFIED', object.backgroundColor)
+    .setCardTitle(object.cardTitle)
+    .setHeaderInfo(object.header, object.subheader);
+
+  if (object.logo) pass.setLogo(object.logo.uri, object.logo.description);
+  if (object.heroImage) pass.setHeroImage(object.heroImage.uri, object.heroImage.description);
+  (object.textModules || []).forEach(module =>
+    pass.addTextModule(module.id, module.body, module.header),
+  );
+  (object.imageModules || []).forEach(module =>
+    pass.addImageModule(module.id, module.uri, module.description),
+  );
+  if (object.barcode) {
+    const { value, type, alternateText, renderEncoding } = object.barcode;
+    pass.setBarcode(value, type, alternateText, renderEncoding);
+  }
+  if (object.links?.length) pass.addLinks(object.links);
+
+  const { android, ios, web } = object.appLinks || {};
+  if (android) {
+    const { title, targetUri, description, logo } = android;
+    pass.addAndroidAppLink(title, targetUri, description, logo?.uri, logo?.description);
+  }
+  if (ios) {
+    const { title, targetUri, description, logo } = ios;
+    pass.addIosAppLink(title, targetUri, description, logo?.uri, logo?.description);
+  }
+  if (web) {
+    const { title, targetUri, description, logo } = web;
+    pass.addWebAppLink(title, targetUri, description, logo?.uri, logo?.description);
+  }
+
+  if (object.grouping) {
+    pass.setGroupingInfo(object.grouping.groupingId, object.grouping.sortIndex);
+  }
+  if (object.validity) pass.setValidTimeInterval(object.validity.start, object.validity.end);
+
+  return pass;
+}
+
+/**
+ * Helper to turn the template section of a spec into class template info
+ */
+function buildTemplate(template: TemplateSpec): ClassTemplateBuilder {
+  const builder = new ClassTemplateBuilder();
+
+  (template.cardRows || []).forEach(([start, middle, end]) => {
+    if (end !== undefined) builder.addThreeItemsRow(start, middle, end);
+    else if (middle !== undefined) builder.addTwoItemsRow(start, middle);
+    else builder.addOneItemRow(start);
+  });
+  if (template.barcodeSection) builder.setBarcodeSection(template.barcodeSection);
+  (template.details || []).forEach(item => builder.addDetailsItem(item));
+  if (template.list) builder.setListTemplate(template.list.firstRow, template.list.secondRow);
+
+  return builder;
+}
+
+/**
+ * Helper to check a value against the JSON Schema keywords the pass spec schema uses
+ */
+function checkSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  context: ValidationContext,
+): void {
+  const at = path || '(root)';
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '');
+    checkSchema(value, (GENERIC_PASS_SPEC_SCHEMA.$defs || {})[name], path, context);
+    return;
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => {
+      const optionContext = new ValidationContext();
+      checkSchema(value, option, path, optionContext);
+      return optionContext.diagnostics.length === 0;
+    });
+    if (!matches) {
+      context.error(at, `Expected ${schema.anyOf.map(describeType).join(' or ')}`);
+    }
+    return;
+  }
+
+  if (schema.enum) {
+    if (!schema.enum.includes(value as string)) {
+      context.error(
+        at,
+        `Unsupported value ${JSON.stringify(value)}, expected one of: ${schema.enum.join(', ')}`,
+      );
+    }
+    return;
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    context.error(at, `Expected ${describeType(schema)}, got ${describeValue(value)}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      context.error(at, 'String must not be empty');
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      context.error(at, `Value "${value}" does not match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    context.error(at, `Value ${value} is below the minimum of ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      context.error(at, `Expected at least ${schema.minItems} item(s), got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      context.error(at, `Expected at most ${schema.maxItems} item(s), got ${value.length}`);
+    }
+    const items = schema.items;
+    if (items) {
+      value.forEach((item, index) => checkSchema(item, items, `${path}[${index}]`, context));
+    }
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) context.error(child(key), 'Required property is missing');
+    });
+    Object.keys(record).forEach(key => {
+      if (!properties[key]) {
+        if (schema.additionalProperties === false) context.error(child(key), 'Unknown property');
+      } else if (record[key] !== undefined) {
+        checkSchema(record[key], properties[key], child(key), context);
+      }
+    });
+  }
+}
+
+/**
+ * Helper to match a value against a JSON Schema type
+ */
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Helper to describe the type a schema expects, e.g. "array of string"
+ */
+function describeType(schema: JsonSchema): string {
+  if (schema.type === 'array' && schema.items?.type) return `array of ${schema.items.type}`;
+  return schema.type || 'value';
+}
+
+/**
+ * Helper to describe the JSON type of a value in error messages
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
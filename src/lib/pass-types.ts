@@ -0,0 +1,399 @@
+import type { Translations } from './localization';
+import type {
+  BarcodeRenderEncoding,
+  BarcodeType,
+  DateFormat,
+  MessageType,
+  ObjectState,
+  PredefinedItem,
+  ReviewStatus,
+  TotpAlgorithm,
+  TransitOption,
+} from './enums';
+import type { GoogleGenericPassClass, GoogleGenericPassObject } from './google-generic-pass';
+import type { EventTicketClass, EventTicketObject } from './google-event-ticket-pass';
+import type { LoyaltyClass, LoyaltyObject } from './google-loyalty-pass';
+import type { GiftCardClass, GiftCardObject } from './google-gift-card-pass';
+import type { FlightClass, FlightObject } from './google-flight-pass';
+import type { TransitClass, TransitObject } from './google-transit-pass';
+
+// Google Wallet Schema Interfaces shared by every pass vertical
+
+export type WalletVertical =
+  | 'generic'
+  | 'eventTicket'
+  | 'loyalty'
+  | 'giftCard'
+  | 'flight'
+  | 'transit';
+
+/**
+ * Fields every Wallet object carries, regardless of vertical
+ */
+export interface BasePassObject {
+  id: string;
+  classId: string;
+  state?: ObjectState;
+  hexBackgroundColor?: string;
+  textModulesData?: TextModuleObject[];
+  linksModuleData?: LinksModuleObject;
+  imageModulesData?: ImageModuleObject[];
+  barcode?: BarcodeObject;
+  rotatingBarcode?: RotatingBarcodeObject;
+  heroImage?: ImageObject;
+  validTimeInterval?: TimeInterval;
+  locations?: LatLongPoint[];
+  appLinkData?: AppLinkData;
+  groupingInfo?: GroupingInfo;
+  messages?: Message[];
+  [key: string]: unknown; // For additional custom fields
+}
+
+/**
+ * Fields every Wallet class carries, regardless of vertical
+ */
+export interface BasePassClass {
+  id: string;
+  issuerName: string;
+  reviewStatus?: ReviewStatus;
+  heroImage?: ImageObject;
+  hexBackgroundColor?: string;
+  classTemplateInfo?: ClassTemplateInfo;
+  messages?: Message[];
+  callbackOptions?: CallbackOptions;
+  [key: string]: unknown; // For additional custom fields
+}
+
+export interface CallbackOptions {
+  url: string; // https endpoint Google notifies when a pass is saved or deleted
+}
+
+export interface ClassTemplateInfo {
+  cardBarcodeSectionDetails?: CardBarcodeSectionDetails;
+  cardTemplateOverride?: CardTemplateOverride;
+  detailsTemplateOverride?: DetailsTemplateOverride;
+  listTemplateOverride?: ListTemplateOverride;
+}
+
+export interface CardBarcodeSectionDetails {
+  firstTopDetail?: BarcodeSectionDetail;
+  firstBottomDetail?: BarcodeSectionDetail;
+  secondTopDetail?: BarcodeSectionDetail;
+}
+
+export interface BarcodeSectionDetail {
+  fieldSelector: FieldSelector;
+}
+
+export interface CardTemplateOverride {
+  cardRowTemplateInfos?: CardRowTemplateInfo[];
+}
+
+export interface CardRowTemplateInfo {
+  twoItems?: TwoItemsInfo;
+  threeItems?: ThreeItemsInfo;
+  oneItem?: OneItemInfo;
+}
+
+export interface DetailsTemplateOverride {
+  detailsItemInfos: DetailsItemInfo[];
+}
+
+export interface DetailsItemInfo {
+  item: TemplateItem;
+}
+
+export interface ListTemplateOverride {
+  firstRowOption?: FirstRowOption;
+  secondRowOption?: FieldSelector;
+}
+
+export interface FirstRowOption {
+  transitOption?: TransitOption;
+  fieldOption?: FieldSelector;
+}
+
+export interface TwoItemsInfo {
+  startItem?: TemplateItem;
+  endItem?: TemplateItem;
+}
+
+export interface ThreeItemsInfo {
+  startItem?: TemplateItem;
+  middleItem?: TemplateItem;
+  endItem?: TemplateItem;
+}
+
+export interface OneItemInfo {
+  item?: TemplateItem;
+}
+
+export interface TemplateItem {
+  firstValue?: TemplateItemValue;
+  secondValue?: TemplateItemValue;
+  predefinedItem?: PredefinedItem;
+}
+
+export interface TemplateItemValue {
+  fields?: FieldReference[];
+}
+
+/**
+ * Google's name for a list of field references; the first one present on the object is shown
+ */
+export type FieldSelector = TemplateItemValue;
+
+export interface FieldReference {
+  fieldPath: string;
+  dateFormat?: DateFormat;
+}
+
+export interface LocalizedString {
+  language: string; // BCP 47 language tag
+  value: string;
+}
+
+export interface LocalizedObject {
+  defaultValue: LocalizedString;
+  translatedValues?: LocalizedString[];
+}
+
+export interface TextModuleObject {
+  id: string;
+  header?: string;
+  body: string;
+  localizedHeader?: LocalizedObject;
+  localizedBody?: LocalizedObject;
+}
+
+export interface ImageObject {
+  sourceUri: {
+    uri: string;
+  };
+  contentDescription?: LocalizedObject;
+}
+
+export interface ImageModuleObject {
+  id: string;
+  mainImage: ImageObject;
+}
+
+export interface BarcodeObject {
+  type: BarcodeType;
+  renderEncoding?: BarcodeRenderEncoding;
+  value: string;
+  alternateText?: string;
+}
+
+export interface RotatingBarcodeObject {
+  type: BarcodeType;
+  renderEncoding?: BarcodeRenderEncoding;
+  // Placeholders: {totp_value_N} (N indexes totpDetails.parameters),
+  // {totp_timestamp_millis} and {totp_timestamp_seconds}
+  valuePattern: string;
+  totpDetails: TotpDetails;
+  alternateText?: string;
+  showCodeText?: LocalizedObject;
+}
+
+export interface TotpDetails {
+  periodMillis: string; // int64 as a string
+  algorithm: TotpAlgorithm;
+  parameters: TotpParameters[];
+}
+
+export interface TotpParameters {
+  key: string; // Secret key, hex (Base16) encoded
+  valueLength: number; // Digits in the generated value
+}
+
+export interface LinksModuleObject {
+  uris: {
+    uri: string;
+    description: string;
+    id: string;
+    localizedDescription?: LocalizedObject;
+  }[];
+}
+
+export interface LinkInput {
+  uri: string;
+  description: string;
+  id: string;
+  translations?: Translations; // Translated descriptions keyed by language tag
+}
+
+export interface RotatingBarcodeInput {
+  valuePattern: string; // e.g. "{totp_value_0}" or "T-1|{totp_timestamp_seconds}|{totp_value_0}"
+  keys: string[]; // Hex encoded TOTP secrets, one per {totp_value_N} placeholder
+  type?: BarcodeType; // Defaults to QR_CODE
+  renderEncoding?: BarcodeRenderEncoding;
+  valueLength?: number; // Digits per TOTP value, defaults to 8
+  periodMillis?: number; // Rotation period, defaults to 30000
+  algorithm?: TotpAlgorithm; // Defaults to TOTP_SHA1
+  alternateText?: string;
+}
+
+export interface Message {
+  id: string;
+  header?: string;
+  body: string;
+  messageType?: MessageType;
+  displayInterval?: TimeInterval; // When the message is shown, defaults to always
+  localizedHeader?: LocalizedObject;
+  localizedBody?: LocalizedObject;
+}
+
+export interface MessageInput {
+  id: string;
+  body: string;
+  header?: string;
+  messageType?: MessageType; // Defaults to TEXT
+  start?: string; // ISO 8601 date/time the message starts showing
+  end?: string; // ISO 8601 date/time the message stops showing
+  translations?: { header?: Translations; body?: Translations };
+}
+
+/**
+ * Body of the objects and classes addMessage endpoints
+ */
+export interface AddMessageRequest {
+  message: Message;
+}
+
+export interface LatLongPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TimeInterval {
+  start?: {
+    date: string; // ISO format
+  };
+  end?: {
+    date: string; // ISO format
+  };
+}
+
+export interface InfoModuleData {
+  id: string;
+  labelValue: {
+    label: string;
+    value: string;
+  };
+}
+
+export interface AppLinkData {
+  androidAppLinkInfo?: AppLinkInfo;
+  iosAppLinkInfo?: AppLinkInfo;
+  webAppLinkInfo?: AppLinkInfo;
+}
+
+export interface AppLinkInfo {
+  appLogoImage?: ImageObject;
+  title: string;
+  description?: string;
+  appTarget: AppTarget;
+}
+
+export interface AppTarget {
+  targetUri: string;
+}
+
+export interface GroupingInfo {
+  groupingId: string;
+  sortIndex?: number;
+}
+
+export interface Money {
+  micros: string; // Amount in millionths of the currency unit, as an int64 string
+  currencyCode: string; // ISO 4217 currency code
+}
+
+/**
+ * Objects and classes carried by a save-to-wallet JWT, keyed per vertical
+ */
+export interface WalletPayload {
+  genericObjects?: GoogleGenericPassObject[];
+  genericClasses?: GoogleGenericPassClass[];
+  eventTicketObjects?: EventTicketObject[];
+  eventTicketClasses?: EventTicketClass[];
+  loyaltyObjects?: LoyaltyObject[];
+  loyaltyClasses?: LoyaltyClass[];
+  giftCardObjects?: GiftCardObject[];
+  giftCardClasses?: GiftCardClass[];
+  flightObjects?: FlightObject[];
+  flightClasses?: FlightClass[];
+  transitObjects?: TransitObject[];
+  transitClasses?: TransitClass[];
+}
+
+/**
+ * Reference to an object that was already inserted through the API, as used by skinny JWTs
+ */
+export interface PassObjectReference {
+  id: string;
+  classId: string;
+}
+
+export type SkinnyWalletPayload = Partial<
+  Record<`${WalletVertical}Objects`, PassObjectReference[]>
+>;
+
+export interface JwtPayload {
+  iss: string; // Issuer (your service account email)
+  aud: string; // Audience (always "google")
+  typ: string; // Type (always "savetowallet")
+  iat: number; // Issued at time
+  origins: string[]; // Allowed origins
+  payload: WalletPayload | SkinnyWalletPayload;
+}
+
+export interface GenerateJwtOptions {
+  strict?: boolean; // Refuse to sign when validation reports errors instead of patching data
+}
+
+/**
+ * Builder state as plain JSON, without the private key
+ */
+export interface SerializedWalletPass<
+  TObject extends BasePassObject = BasePassObject,
+  TClass extends BasePassClass = BasePassClass,
+> {
+  version: number;
+  vertical: WalletVertical;
+  issuerId: string;
+  passId: string;
+  classId: string;
+  defaultLanguage: string;
+  serviceAccountEmail?: string;
+  passObject: TObject;
+  passClass?: TClass;
+}
+
+/**
+ * Convert a decimal amount to a Money value, e.g. toMoney(12.5, 'USD')
+ */
+export function toMoney(amount: number, currencyCode: string): Money {
+  return {
+    micros: String(Math.round(amount * 1_000_000)),
+    currencyCode,
+  };
+}
+
+/**
+ * Split a full resource id ("issuerId.suffix") into the issuer id and the suffix
+ */
+export function splitResourceId(resourceId: string): [string, string] {
+  const separator = resourceId.indexOf('.');
+  return separator === -1
+    ? ['', resourceId]
+    : [resourceId.slice(0, separator), resourceId.slice(separator + 1)];
+}
+
+/**
+ * Deep copy plain JSON data so copies never share nested objects or arrays
+ */
+export function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,157 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { RotatingBarcodeObject } from './pass-types';
+
+export const DEFAULT_TOTP_PERIOD_MILLIS = 30_000;
+export const DEFAULT_TOTP_VALUE_LENGTH = 8;
+
+const PLACEHOLDER_PATTERN = /\{(totp_value_(\d+)|totp_timestamp_millis|totp_timestamp_seconds)\}/g;
+const HEX_KEY_PATTERN = /^(?:[0-9a-f]{2})+$/i;
+
+export interface RotatingBarcodeVerifyOptions {
+  now?: number; // Epoch milliseconds to verify against, defaults to Date.now()
+  window?: number; // Accepted periods before and after now, defaults to 1
+}
+
+export interface RotatingBarcodeVerification {
+  valid: boolean;
+  timeStep?: number; // Periods between now and the scanned value, when valid
+  reason?: string; // Why the value was rejected
+}
+
+/**
+ * Generate a random TOTP secret, hex encoded as Google expects
+ */
+export function generateTotpKey(bytes = 20): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Check that a TOTP key is hex (Base16) encoded
+ */
+export function isValidTotpKey(key: string): boolean {
+  return HEX_KEY_PATTERN.test(key);
+}
+
+/**
+ * Placeholder indexes ({totp_value_N}) used by a value pattern
+ */
+export function getTotpValueIndexes(valuePattern: string): number[] {
+  const indexes: number[] = [];
+  valuePattern.replace(PLACEHOLDER_PATTERN, (placeholder, _name, index?: string) => {
+    if (index !== undefined) indexes.push(Number(index));
+    return placeholder;
+  });
+  return indexes;
+}
+
+/**
+ * Compute an RFC 6238 TOTP value (HMAC-SHA1) for a hex key at the given time
+ */
+export function generateTotp(
+  key: string,
+  timestampMillis: number,
+  periodMillis = DEFAULT_TOTP_PERIOD_MILLIS,
+  valueLength = DEFAULT_TOTP_VALUE_LENGTH,
+): string {
+  if (!isValidTotpKey(key)) {
+    throw new Error('TOTP keys must be hex (Base16) encoded');
+  }
+
+  const steps = Math.floor(timestampMillis / periodMillis);
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(steps / 2 ** 32), 0);
+  counter.writeUInt32BE(steps >>> 0, 4);
+
+  const hmac = createHmac('sha1', Buffer.from(key, 'hex')).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(code % 10 ** valueLength).padStart(valueLength, '0');
+}
+
+/**
+ * Fill in a rotating barcode's value pattern the way Google Wallet does at the given time
+ */
+export function generateRotatingBarcodeValue(
+  barcode: RotatingBarcodeObject,
+  timestampMillis = Date.now(),
+): string {
+  const { parameters } = barcode.totpDetails;
+  const periodMillis = Number(barcode.totpDetails.periodMillis);
+
+  return barcode.valuePattern.replace(PLACEHOLDER_PATTERN, (placeholder, name, index?: string) => {
+    if (name === 'totp_timestamp_millis') return String(timestampMillis);
+    if (name === 'totp_timestamp_seconds') return String(Math.floor(timestampMillis / 1000));
+
+    const parameter = parameters[Number(index)];
+    if (!parameter) {
+      throw new Error(`${placeholder} has no matching TOTP parameter`);
+    }
+    return generateTotp(parameter.key, timestampMillis, periodMillis, parameter.valueLength);
+  });
+}
+
+/**
+ * Verify a scanned rotating barcode value offline, against the same secrets and pattern.
+ * Values are accepted within `window` periods of now to allow for clock drift.
+ */
+export function verifyRotatingBarcodeValue(
+  barcode: RotatingBarcodeObject,
+  scannedValue: string,
+  options: RotatingBarcodeVerifyOptions = {},
+): RotatingBarcodeVerification {
+  const now = options.now ?? Date.now();
+  const window = options.window ?? 1;
+  const periodMillis = Number(barcode.totpDetails.periodMillis);
+
+  // Turn the pattern into a regular expression that captures each placeholder.
+  // split() interleaves literal text, the placeholder name and the totp_value index.
+  const { parameters } = barcode.totpDetails;
+  const parts = barcode.valuePattern.split(PLACEHOLDER_PATTERN);
+  const placeholders: string[] = [];
+  let source = '';
+
+  for (let index = 0; index < parts.length; index += 3) {
+    source += parts[index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (index + 1 >= parts.length) break;
+
+    placeholders.push(parts[index + 1]);
+    const valueIndex = parts[index + 2];
+    const valueLength = valueIndex !== undefined ? parameters[Number(valueIndex)]?.valueLength : 0;
+    source += valueLength ? `(\\d{${valueLength}})` : '(\\d+)';
+  }
+
+  const match = new RegExp(`^${source}$`).exec(scannedValue);
+  if (!match) {
+    return { valid: false, reason: 'Value does not match the barcode pattern' };
+  }
+
+  const captured = (name: string) => match[placeholders.indexOf(name) + 1];
+  const scannedTimestamp = placeholders.includes('totp_timestamp_millis')
+    ? Number(captured('totp_timestamp_millis'))
+    : placeholders.includes('totp_timestamp_seconds')
+    ? Number(captured('totp_timestamp_seconds')) * 1000
+    : undefined;
+
+  // Without a timestamp in the value, try every period in the window around now
+  const currentStep = Math.floor(now / periodMillis);
+  const candidates =
+    scannedTimestamp !== undefined
+      ? [scannedTimestamp]
+      : Array.from(
+          { length: window * 2 + 1 },
+          (_, index) => (currentStep + index - window) * periodMillis,
+        );
+
+  for (const timestamp of candidates) {
+    const timeStep = Math.floor(timestamp / periodMillis) - currentStep;
+    if (Math.abs(timeStep) > window) {
+      return { valid: false, reason: 'Value is outside the accepted time window' };
+    }
+    if (generateRotatingBarcodeValue(barcode, timestamp) === scannedValue) {
+      return { valid: true, timeStep };
+    }
+  }
+
+  return { valid: false, reason: 'TOTP value does not match' };
+}
@@ -0,0 +1,64 @@
+import * as jwt from 'jsonwebtoken';
+import { JwtPayload } from './pass-types';
+
+export interface VerifySaveJwtOptions {
+  origins?: string[]; // Origins the token must allow
+}
+
+export class SaveJwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveJwtVerificationError';
+  }
+}
+
+/**
+ * Decode a save-to-wallet JWT without verifying its signature or claims
+ */
+export function decodeSaveJwt(token: string): JwtPayload {
+  const decoded = jwt.decode(token);
+  if (!decoded || typeof decoded !== 'object' || typeof decoded.payload !== 'object') {
+    throw new SaveJwtVerificationError('Token is not a save-to-wallet JWT');
+  }
+  return decoded as unknown as JwtPayload;
+}
+
+/**
+ * Decode a save-to-wallet JWT and check its claims. The RS256 signature is verified when
+ * the service account's public key or certificate (PEM) is given.
+ */
+export function verifySaveJwt(
+  token: string,
+  publicKeyOrCert?: string,
+  options: VerifySaveJwtOptions = {},
+): JwtPayload {
+  if (publicKeyOrCert) {
+    try {
+      jwt.verify(token, publicKeyOrCert, { algorithms: ['RS256'] });
+    } catch (error) {
+      throw new SaveJwtVerificationError(
+        `Invalid JWT signature: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const claims = decodeSaveJwt(token);
+
+  if (claims.aud !== 'google') {
+    throw new SaveJwtVerificationError(`Unexpected audience "${claims.aud}", expected "google"`);
+  }
+  if (claims.typ !== 'savetowallet') {
+    throw new SaveJwtVerificationError(`Unexpected type "${claims.typ}", expected "savetowallet"`);
+  }
+
+  const missingOrigins = (options.origins || []).filter(
+    origin => !(claims.origins || []).includes(origin),
+  );
+  if (missingOrigins.length > 0) {
+    throw new SaveJwtVerificationError(
+      `Token does not allow origins: ${missingOrigins.join(', ')}`,
+    );
+  }
+
+  return claims;
+}
@@ -0,0 +1,61 @@
+import type { GoogleWalletClient } from './google-wallet-client';
+import { GenerateJwtOptions } from './pass-types';
+
+/** Base URL of the "Add to Google Wallet" save link; the signed JWT is appended */
+export const SAVE_TO_WALLET_URL = 'https://pay.google.com/gp/v/save/';
+
+/**
+ * Links longer than this are truncated or rejected by some browsers and email clients
+ */
+export const DEFAULT_MAX_SAVE_LINK_LENGTH = 1800;
+
+export interface SaveLinkOptions extends GenerateJwtOptions {
+  maxLength?: number; // Longest acceptable link in characters, defaults to 1800
+  onTooLong?: 'warn' | 'error' | 'ignore'; // Defaults to 'warn'
+}
+
+export interface SkinnyFallbackOptions extends SaveLinkOptions {
+  client?: GoogleWalletClient; // Defaults to a client using the pass's credentials
+}
+
+export class SaveLinkTooLongError extends Error {
+  readonly length: number;
+  readonly maxLength: number;
+
+  constructor(length: number, maxLength: number) {
+    super(
+      `Save link is ${length} characters long, exceeding the limit of ${maxLength}. ` +
+        'Use a skinny JWT that references objects inserted through the API instead.',
+    );
+    this.name = 'SaveLinkTooLongError';
+    this.length = length;
+    this.maxLength = maxLength;
+  }
+}
+
+/**
+ * Whether a save link fits within the configured length limit
+ */
+export function isSaveLinkWithinLimit(link: string, options: SaveLinkOptions = {}): boolean {
+  return link.length <= (options.maxLength ?? DEFAULT_MAX_SAVE_LINK_LENGTH);
+}
+
+/**
+ * Build the save link for a signed JWT, warning or failing when it is too long
+ */
+export function buildSaveLink(token: string, options: SaveLinkOptions = {}): string {
+  const link = `${SAVE_TO_WALLET_URL}${token}`;
+  const maxLength = options.maxLength ?? DEFAULT_MAX_SAVE_LINK_LENGTH;
+
+  if (link.length > maxLength) {
+    const onTooLong = options.onTooLong || 'warn';
+    if (onTooLong === 'error') {
+      throw new SaveLinkTooLongError(link.length, maxLength);
+    }
+    if (onTooLong === 'warn') {
+      console.warn(new SaveLinkTooLongError(link.length, maxLength).message);
+    }
+  }
+
+  return link;
+}
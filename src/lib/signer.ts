@@ -0,0 +1,181 @@
+import { KeyObject, createPrivateKey, generateKeyPairSync, sign } from 'crypto';
+import { Worker } from 'worker_threads';
+
+/**
+ * Signs save JWTs with RS256 (RSASSA-PKCS1-v1_5 with SHA-256). Implement it to keep the
+ * private key in an HSM or KMS: `sign` receives the JWT signing input and returns the raw
+ * signature, synchronously or as a promise.
+ */
+export interface Signer {
+  readonly keyId?: string; // Written to the JWT header as "kid"
+  sign(data: Buffer): Buffer | Promise<Buffer>;
+}
+
+/**
+ * Signer for a PEM private key held in memory, producing the same tokens as the built-in
+ * service account credentials
+ */
+export class PemSigner implements Signer {
+  readonly keyId?: string;
+  private key: KeyObject;
+
+  constructor(privateKey: string, keyId?: string) {
+    this.key = createPrivateKey(privateKey);
+    this.keyId = keyId;
+  }
+
+  sign(data: Buffer): Buffer {
+    return sign('sha256', data, this.key);
+  }
+}
+
+// Runs inside each worker thread, so it is plain JavaScript
+const SIGNING_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { createPrivateKey, sign } = require('crypto');
+const key = createPrivateKey(workerData.privateKey);
+parentPort.on('message', ({ id, data }) => {
+  try {
+    parentPort.postMessage({ id, signature: sign('sha256', Buffer.from(data), key) });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message });
+  }
+});
+`;
+
+interface SigningWorker {
+  worker: Worker;
+  pending: Map<number, { resolve: (signature: Buffer) => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Signer that signs with a PEM private key on a pool of worker threads, keeping RSA signing
+ * off the event loop when issuing many passes. Call close() once done with it.
+ */
+export class WorkerSigner implements Signer {
+  readonly keyId?: string;
+  private workers: SigningWorker[];
+  private nextId = 0;
+  private closed = false;
+
+  constructor(privateKey: string, options: { threads?: number; keyId?: string } = {}) {
+    createPrivateKey(privateKey); // Fail here rather than in every worker
+    this.keyId = options.keyId;
+    this.workers = Array.from({ length: Math.max(1, options.threads ?? 2) }, () =>
+      this.startWorker(privateKey),
+    );
+  }
+
+  sign(data: Buffer): Promise<Buffer> {
+    if (this.workers.length === 0) {
+      const reason = this.closed ? 'WorkerSigner has been closed' : 'All signing workers stopped';
+      return Promise.reject(new Error(reason));
+    }
+
+    // The worker with the fewest pending signatures takes the next one
+    const target = this.workers.reduce((least, candidate) =>
+      candidate.pending.size < least.pending.size ? candidate : least,
+    );
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      target.pending.set(id, { resolve, reject });
+      target.worker.postMessage({ id, data });
+    });
+  }
+
+  /**
+   * Stop the worker threads, rejecting signatures still in progress
+   */
+  async close(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.closed = true;
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  /**
+   * Helper to start a worker and route its replies to the pending signatures. A worker that
+   * fails or exits leaves the pool, so new signatures go to the workers still running.
+   */
+  private startWorker(privateKey: string): SigningWorker {
+    const worker = new Worker(SIGNING_WORKER_SOURCE, { eval: true, workerData: { privateKey } });
+    const signingWorker: SigningWorker = { worker, pending: new Map() };
+    const stop = (error: Error) => {
+      this.workers = this.workers.filter(entry => entry !== signingWorker);
+      signingWorker.pending.forEach(({ reject }) => reject(error));
+      signingWorker.pending.clear();
+    };
+
+    worker.on('message', ({ id, signature, error }) => {
+      const pending = signingWorker.pending.get(id);
+      signingWorker.pending.delete(id);
+      if (error) pending?.reject(new Error(error));
+      else pending?.resolve(Buffer.from(signature));
+    });
+    worker.on('error', stop);
+    worker.on('exit', () => stop(new Error('Signing worker stopped')));
+    return signingWorker;
+  }
+}
+
+/**
+ * Signer with a freshly generated RSA key, for tests. Its public key verifies the tokens.
+ */
+export function createTestSigner(
+  options: { keyId?: string; async?: boolean } = {},
+): { signer: Signer; publicKey: string; privateKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const pemSigner = new PemSigner(privateKey, options.keyId);
+
+  const signer: Signer = options.async
+    ? { keyId: options.keyId, sign: async data => pemSigner.sign(data) }
+    : pemSigner;
+  return { signer, publicKey, privateKey };
+}
+
+/**
+ * Encode and sign a JWT with a synchronous signer
+ */
+export function signJwt(claims: object, signer: Signer): string {
+  const signingInput = jwtSigningInput(claims, signer);
+  const signature = signer.sign(Buffer.from(signingInput));
+  if (!Buffer.isBuffer(signature)) {
+    // The signature is not awaited, so keep a failure from becoming an unhandled rejection
+    Promise.resolve(signature).catch(() => undefined);
+    throw new Error('Signer is asynchronous, use the async signing methods instead');
+  }
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+/**
+ * Encode and sign a JWT with a synchronous or asynchronous signer
+ */
+export async function signJwtAsync(claims: object, signer: Signer): Promise<string> {
+  const signingInput = jwtSigningInput(claims, signer);
+  const signature = await signer.sign(Buffer.from(signingInput));
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+/**
+ * Helper to build the "header.payload" part of a JWT
+ */
+function jwtSigningInput(claims: object, signer: Signer): string {
+  const header = { alg: 'RS256', typ: 'JWT', ...(signer.keyId ? { kid: signer.keyId } : {}) };
+  return `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+}
+
+/**
+ * Helper to base64url encode without padding
+ */
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
@@ -0,0 +1,599 @@
+import type { GoogleGenericPassClass, GoogleGenericPassObject } from './google-generic-pass';
+import type { EventTicketClass, EventTicketObject } from './google-event-ticket-pass';
+import type { LoyaltyClass, LoyaltyObject, LoyaltyPoints } from './google-loyalty-pass';
+import type { GiftCardClass, GiftCardObject } from './google-gift-card-pass';
+import type { FlightClass, FlightObject } from './google-flight-pass';
+import type { TicketLeg, TransitClass, TransitObject } from './google-transit-pass';
+import type {
+  AppLinkData,
+  BasePassClass,
+  BasePassObject,
+  ImageObject,
+  InfoModuleData,
+  LocalizedObject,
+  Message,
+  Money,
+} from './pass-types';
+import {
+  BARCODE_RENDER_ENCODINGS,
+  BARCODE_TYPES,
+  BOARDING_DOORS,
+  CONCESSION_CATEGORIES,
+  FARE_CLASSES,
+  FLIGHT_STATUSES,
+  GENERIC_TYPES,
+  MESSAGE_TYPES,
+  OBJECT_STATES,
+  PASSENGER_TYPES,
+  REVIEW_STATUSES,
+  TOTP_ALGORITHMS,
+  TRANSIT_TYPES,
+  TRIP_TYPES,
+} from './enums';
+import { collectTemplateFieldPaths, resolveFieldPath } from './field-paths';
+import { getTotpValueIndexes, isValidTotpKey } from './rotating-barcode';
+import { isValidLanguageTag } from './localization';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationDiagnostic {
+  path: string; // Field path, e.g. "object.textModulesData[0].body"
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean; // True when there are no error diagnostics
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Thrown by strict JWT generation when the pass has validation errors
+ */
+export class PassValidationError extends Error {
+  readonly diagnostics: ValidationDiagnostic[];
+
+  constructor(diagnostics: ValidationDiagnostic[]) {
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    super(
+      `Pass validation failed with ${errors.length} error(s):\n` +
+        errors.map(error => `  ${error.path}: ${error.message}`).join('\n'),
+    );
+    this.name = 'PassValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+const EVENT_SEAT_LABELS = {
+  seatLabel: ['SEAT_LABEL_UNSPECIFIED', 'SEAT'],
+  rowLabel: ['ROW_LABEL_UNSPECIFIED', 'ROW'],
+  sectionLabel: ['SECTION_LABEL_UNSPECIFIED', 'SECTION', 'THEATER'],
+  gateLabel: ['GATE_LABEL_UNSPECIFIED', 'GATE', 'DOOR', 'ENTRANCE'],
+} as const;
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Schemes Wallet can open from the links module; anything else, e.g. javascript:, is rejected
+const LINK_URI_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const WEB_URI_SCHEMES = ['http:', 'https:'];
+
+/**
+ * Collects diagnostics while walking a pass object and class
+ */
+export class ValidationContext {
+  readonly diagnostics: ValidationDiagnostic[] = [];
+
+  error(path: string, message: string): void {
+    this.diagnostics.push({ path, severity: 'error', message });
+  }
+
+  warning(path: string, message: string): void {
+    this.diagnostics.push({ path, severity: 'warning', message });
+  }
+
+  result(): ValidationResult {
+    return {
+      valid: !this.diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  required(path: string, value: unknown): void {
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      this.error(path, 'Required field is missing or empty');
+    }
+  }
+
+  nonEmpty(path: string, value: string | undefined): void {
+    if (value !== undefined && !value.trim()) {
+      this.error(path, 'String must not be empty');
+    }
+  }
+
+  oneOf(path: string, value: string | undefined, allowed: readonly string[]): void {
+    if (value !== undefined && !allowed.includes(value)) {
+      this.error(path, `Unsupported value "${value}", expected one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  hexColor(path: string, value: string | undefined): void {
+    if (value !== undefined && !HEX_COLOR_PATTERN.test(value)) {
+      this.error(path, `Invalid hex color "${value}", expected #rgb or #rrggbb`);
+    }
+  }
+
+  uri(
+    path: string,
+    value: string | undefined,
+    options: { requireHttps?: boolean; schemes?: readonly string[] } = {},
+  ): void {
+    if (value === undefined) return;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(value);
+    } catch {
+      this.error(path, `Malformed URI "${value}"`);
+      return;
+    }
+
+    if (options.requireHttps && parsed.protocol !== 'https:') {
+      if (parsed.protocol === 'http:') {
+        this.warning(path, 'Image URIs should use https');
+      } else {
+        this.error(path, `Unsupported URI scheme "${parsed.protocol}", expected https`);
+      }
+    } else if (options.schemes && !options.schemes.includes(parsed.protocol)) {
+      const expected = options.schemes.join(', ');
+      this.error(path, `Unsupported URI scheme "${parsed.protocol}", expected one of: ${expected}`);
+    }
+  }
+
+  localized(path: string, value: LocalizedObject | undefined): void {
+    if (!value) return;
+
+    const entries = [
+      { path: `${path}.defaultValue`, entry: value.defaultValue },
+      ...(value.translatedValues || []).map((entry, index) => ({
+        path: `${path}.translatedValues[${index}]`,
+        entry,
+      })),
+    ];
+
+    entries.forEach(({ path: entryPath, entry }) => {
+      if (!entry) {
+        this.error(entryPath, 'Required field is missing or empty');
+        return;
+      }
+      if (!isValidLanguageTag(entry.language)) {
+        this.error(`${entryPath}.language`, `Invalid BCP 47 language tag "${entry.language}"`);
+      }
+      this.required(`${entryPath}.value`, entry.value);
+    });
+  }
+
+  image(path: string, image: ImageObject | undefined): void {
+    if (!image) return;
+
+    this.required(`${path}.sourceUri.uri`, image.sourceUri?.uri);
+    this.uri(`${path}.sourceUri.uri`, image.sourceUri?.uri || undefined, { requireHttps: true });
+    this.localized(`${path}.contentDescription`, image.contentDescription);
+  }
+
+  uniqueIds(path: string, items: { id?: string }[] | undefined): void {
+    const seen = new Set<string>();
+    (items || []).forEach((item, index) => {
+      if (item.id === undefined) return;
+      if (seen.has(item.id)) {
+        this.error(`${path}[${index}].id`, `Duplicate module id "${item.id}"`);
+      }
+      seen.add(item.id);
+    });
+  }
+
+  infoModules(path: string, modules: InfoModuleData[] | undefined): void {
+    this.uniqueIds(path, modules);
+    (modules || []).forEach((module, index) => {
+      this.required(`${path}[${index}].labelValue.label`, module.labelValue?.label);
+      this.required(`${path}[${index}].labelValue.value`, module.labelValue?.value);
+    });
+  }
+
+  money(path: string, value: Money | undefined): void {
+    if (!value) return;
+
+    if (!/^-?\d+$/.test(value.micros)) {
+      this.error(`${path}.micros`, `Invalid micros "${value.micros}", expected an integer string`);
+    }
+    if (!/^[A-Z]{3}$/.test(value.currencyCode)) {
+      this.error(`${path}.currencyCode`, `Invalid ISO 4217 currency code "${value.currencyCode}"`);
+    }
+  }
+
+  loyaltyPoints(path: string, value: LoyaltyPoints | undefined): void {
+    if (!value) return;
+
+    const balance = value.balance || {};
+    const kinds = (['string', 'int', 'double', 'money'] as const).filter(
+      kind => balance[kind] !== undefined,
+    );
+    if (kinds.length !== 1) {
+      this.error(`${path}.balance`, 'Exactly one of string, int, double or money must be set');
+    }
+    if (balance.int !== undefined && !Number.isInteger(balance.int)) {
+      this.error(`${path}.balance.int`, `Invalid integer balance ${balance.int}`);
+    }
+    this.money(`${path}.balance.money`, balance.money);
+    this.localized(`${path}.localizedLabel`, value.localizedLabel);
+  }
+
+  ticketLeg(path: string, leg: TicketLeg): void {
+    this.localized(`${path}.originName`, leg.originName);
+    this.localized(`${path}.destinationName`, leg.destinationName);
+    this.localized(`${path}.fareName`, leg.fareName);
+    this.dateTime(`${path}.departureDateTime`, leg.departureDateTime);
+    this.dateTime(`${path}.arrivalDateTime`, leg.arrivalDateTime);
+  }
+
+  dateTime(path: string, value: string | undefined): void {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      this.error(path, `Invalid ISO 8601 date/time "${value}"`);
+    }
+  }
+
+  messages(path: string, messages: Message[] | undefined): void {
+    this.uniqueIds(path, messages);
+    (messages || []).forEach((message, index) => {
+      const messagePath = `${path}[${index}]`;
+      this.required(`${messagePath}.body`, message.body);
+      this.nonEmpty(`${messagePath}.header`, message.header);
+      this.oneOf(`${messagePath}.messageType`, message.messageType, MESSAGE_TYPES);
+      this.localized(`${messagePath}.localizedHeader`, message.localizedHeader);
+      this.localized(`${messagePath}.localizedBody`, message.localizedBody);
+
+      const { start, end } = message.displayInterval || {};
+      this.dateTime(`${messagePath}.displayInterval.start.date`, start?.date);
+      this.dateTime(`${messagePath}.displayInterval.end.date`, end?.date);
+      if (start && end && Date.parse(end.date) <= Date.parse(start.date)) {
+        this.error(`${messagePath}.displayInterval.end.date`, 'Must be after the start date');
+      }
+    });
+  }
+
+  appLinks(path: string, appLinkData: AppLinkData | undefined): void {
+    if (!appLinkData) return;
+
+    (['androidAppLinkInfo', 'iosAppLinkInfo', 'webAppLinkInfo'] as const).forEach(key => {
+      const info = appLinkData[key];
+      if (!info) return;
+
+      this.required(`${path}.${key}.title`, info.title);
+      this.required(`${path}.${key}.appTarget.targetUri`, info.appTarget?.targetUri);
+      // Android and iOS targets may be deep links with app-specific schemes
+      this.uri(`${path}.${key}.appTarget.targetUri`, info.appTarget?.targetUri || undefined, {
+        schemes: key === 'webAppLinkInfo' ? WEB_URI_SCHEMES : undefined,
+      });
+      this.image(`${path}.${key}.appLogoImage`, info.appLogoImage);
+    });
+  }
+
+  /**
+   * Identity fields shared by every vertical's object
+   */
+  objectIdentity(passObject: BasePassObject): void {
+    this.required('object.id', passObject.id);
+    this.required('object.classId', passObject.classId);
+    this.oneOf('object.state', passObject.state, OBJECT_STATES);
+    this.hexColor('object.hexBackgroundColor', passObject.hexBackgroundColor);
+  }
+
+  /**
+   * Images, modules, links, barcode and app links shared by every vertical's object
+   */
+  objectModules(passObject: BasePassObject): void {
+    this.image('object.heroImage', passObject.heroImage);
+
+    this.uniqueIds('object.textModulesData', passObject.textModulesData);
+    (passObject.textModulesData || []).forEach((module, index) => {
+      const path = `object.textModulesData[${index}]`;
+      this.required(`${path}.body`, module.body);
+      this.nonEmpty(`${path}.header`, module.header);
+      this.localized(`${path}.localizedHeader`, module.localizedHeader);
+      this.localized(`${path}.localizedBody`, module.localizedBody);
+    });
+
+    this.uniqueIds('object.imageModulesData', passObject.imageModulesData);
+    (passObject.imageModulesData || []).forEach((module, index) => {
+      this.image(`object.imageModulesData[${index}].mainImage`, module.mainImage);
+    });
+
+    const links = passObject.linksModuleData?.uris;
+    this.uniqueIds('object.linksModuleData.uris', links);
+    (links || []).forEach((link, index) => {
+      const path = `object.linksModuleData.uris[${index}]`;
+      this.required(`${path}.uri`, link.uri);
+      this.uri(`${path}.uri`, link.uri || undefined, { schemes: LINK_URI_SCHEMES });
+      this.required(`${path}.description`, link.description);
+      this.localized(`${path}.localizedDescription`, link.localizedDescription);
+    });
+
+    if (passObject.barcode) {
+      this.required('object.barcode.value', passObject.barcode.value);
+      this.oneOf('object.barcode.type', passObject.barcode.type, BARCODE_TYPES);
+      this.oneOf(
+        'object.barcode.renderEncoding',
+        passObject.barcode.renderEncoding,
+        BARCODE_RENDER_ENCODINGS,
+      );
+    }
+
+    const rotating = passObject.rotatingBarcode;
+    if (rotating) {
+      this.required('object.rotatingBarcode.valuePattern', rotating.valuePattern);
+      this.oneOf('object.rotatingBarcode.type', rotating.type, BARCODE_TYPES);
+      this.oneOf(
+        'object.rotatingBarcode.totpDetails.algorithm',
+        rotating.totpDetails?.algorithm,
+        TOTP_ALGORITHMS,
+      );
+      const parameters = rotating.totpDetails?.parameters || [];
+      parameters.forEach((parameter, index) => {
+        if (!isValidTotpKey(parameter.key || '')) {
+          const path = `object.rotatingBarcode.totpDetails.parameters[${index}].key`;
+          this.error(path, 'TOTP key must be hex (Base16) encoded');
+        }
+      });
+      getTotpValueIndexes(rotating.valuePattern || '')
+        .filter(index => index >= parameters.length)
+        .forEach(index => {
+          this.error(
+            'object.rotatingBarcode.valuePattern',
+            `{totp_value_${index}} has no matching TOTP parameter`,
+          );
+        });
+    }
+
+    this.messages('object.messages', passObject.messages);
+    this.appLinks('object.appLinkData', passObject.appLinkData);
+  }
+
+  /**
+   * Fields shared by every vertical's class, plus the object/class id match
+   */
+  classCommon(passClass: BasePassClass, passObject: BasePassObject): void {
+    this.required('class.id', passClass.id);
+    this.required('class.issuerName', passClass.issuerName);
+    this.oneOf('class.reviewStatus', passClass.reviewStatus, REVIEW_STATUSES);
+    this.hexColor('class.hexBackgroundColor', passClass.hexBackgroundColor);
+    this.image('class.heroImage', passClass.heroImage);
+    this.messages('class.messages', passClass.messages);
+
+    const callbackUrl = passClass.callbackOptions?.url;
+    this.uri('class.callbackOptions.url', callbackUrl);
+    if (callbackUrl && /^http:/i.test(callbackUrl)) {
+      this.error('class.callbackOptions.url', 'Callback URLs must use https');
+    }
+
+    collectTemplateFieldPaths(passClass.classTemplateInfo).forEach(({ path, fieldPath }) => {
+      if (resolveFieldPath(fieldPath, passObject, passClass) === undefined) {
+        this.error(path, `Field path "${fieldPath}" does not exist on the pass`);
+      }
+    });
+
+    if (passObject.classId && passClass.id && passObject.classId !== passClass.id) {
+      this.error('object.classId', `Does not match class id "${passClass.id}"`);
+    }
+  }
+}
+
+/**
+ * Validate a generic pass object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateGenericPass(
+  passObject: GoogleGenericPassObject,
+  passClass?: GoogleGenericPassClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.oneOf('object.genericType', passObject.genericType, GENERIC_TYPES);
+
+  context.required('object.cardTitle', passObject.cardTitle);
+  context.localized('object.cardTitle', passObject.cardTitle);
+  context.required('object.header', passObject.header);
+  context.localized('object.header', passObject.header);
+  context.localized('object.subheader', passObject.subheader);
+  context.image('object.logo', passObject.logo);
+
+  context.objectModules(passObject);
+  context.infoModules('object.customInfoModules', passObject.customInfoModules);
+  context.infoModules('object.additionalInfo', passObject.additionalInfo);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    context.image('class.logoImage', passClass.logoImage);
+  }
+
+  return context.result();
+}
+
+/**
+ * Validate an event ticket object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateEventTicketPass(
+  passObject: EventTicketObject,
+  passClass?: EventTicketClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.localized('object.seatInfo.seat', passObject.seatInfo?.seat);
+  context.localized('object.seatInfo.row', passObject.seatInfo?.row);
+  context.localized('object.seatInfo.section', passObject.seatInfo?.section);
+  context.localized('object.seatInfo.gate', passObject.seatInfo?.gate);
+  context.nonEmpty('object.ticketHolderName', passObject.ticketHolderName);
+  context.nonEmpty('object.ticketNumber', passObject.ticketNumber);
+  context.localized('object.ticketType', passObject.ticketType);
+
+  context.money('object.faceValue', passObject.faceValue);
+  context.objectModules(passObject);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    context.required('class.eventName', passClass.eventName);
+    context.localized('class.eventName', passClass.eventName);
+    context.image('class.logo', passClass.logo);
+    context.localized('class.venue.name', passClass.venue?.name);
+    context.localized('class.venue.address', passClass.venue?.address);
+    context.dateTime('class.dateTime.doorsOpen', passClass.dateTime?.doorsOpen);
+    context.dateTime('class.dateTime.start', passClass.dateTime?.start);
+    context.dateTime('class.dateTime.end', passClass.dateTime?.end);
+
+    (Object.keys(EVENT_SEAT_LABELS) as (keyof typeof EVENT_SEAT_LABELS)[]).forEach(key => {
+      context.oneOf(`class.${key}`, passClass[key], EVENT_SEAT_LABELS[key]);
+    });
+  }
+
+  return context.result();
+}
+
+/**
+ * Validate a loyalty object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateLoyaltyPass(
+  passObject: LoyaltyObject,
+  passClass?: LoyaltyClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.nonEmpty('object.accountId', passObject.accountId);
+  context.nonEmpty('object.accountName', passObject.accountName);
+  context.loyaltyPoints('object.loyaltyPoints', passObject.loyaltyPoints);
+  context.loyaltyPoints('object.secondaryLoyaltyPoints', passObject.secondaryLoyaltyPoints);
+  context.objectModules(passObject);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    context.required('class.programName', passClass.programName);
+    context.localized('class.localizedProgramName', passClass.localizedProgramName);
+    context.required('class.programLogo', passClass.programLogo);
+    context.image('class.programLogo', passClass.programLogo);
+    context.nonEmpty('class.rewardsTier', passClass.rewardsTier);
+  }
+
+  return context.result();
+}
+
+/**
+ * Validate a gift card object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateGiftCardPass(
+  passObject: GiftCardObject,
+  passClass?: GiftCardClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.required('object.cardNumber', passObject.cardNumber);
+  context.nonEmpty('object.pin', passObject.pin);
+  context.money('object.balance', passObject.balance);
+  context.dateTime('object.balanceUpdateTime.date', passObject.balanceUpdateTime?.date);
+  context.objectModules(passObject);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    context.image('class.programLogo', passClass.programLogo);
+  }
+
+  return context.result();
+}
+
+/**
+ * Validate a flight object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateFlightPass(
+  passObject: FlightObject,
+  passClass?: FlightClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.required('object.passengerName', passObject.passengerName);
+  context.oneOf(
+    'object.boardingAndSeatingInfo.boardingDoor',
+    passObject.boardingAndSeatingInfo?.boardingDoor,
+    BOARDING_DOORS,
+  );
+  context.objectModules(passObject);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    const carrier = passClass.flightHeader?.carrier;
+    context.required('class.flightHeader.carrier.carrierIataCode', carrier?.carrierIataCode);
+    context.localized('class.flightHeader.carrier.airlineName', carrier?.airlineName);
+    context.image('class.flightHeader.carrier.airlineLogo', carrier?.airlineLogo);
+    context.required('class.flightHeader.flightNumber', passClass.flightHeader?.flightNumber);
+    context.required('class.origin.airportIataCode', passClass.origin?.airportIataCode);
+    context.required('class.destination.airportIataCode', passClass.destination?.airportIataCode);
+
+    const departure = passClass.localScheduledDepartureDateTime;
+    context.required('class.localScheduledDepartureDateTime', departure);
+    context.dateTime('class.localScheduledDepartureDateTime', departure);
+    context.dateTime('class.localBoardingDateTime', passClass.localBoardingDateTime);
+    context.dateTime(
+      'class.localScheduledArrivalDateTime',
+      passClass.localScheduledArrivalDateTime,
+    );
+    context.oneOf('class.flightStatus', passClass.flightStatus, FLIGHT_STATUSES);
+  }
+
+  return context.result();
+}
+
+/**
+ * Validate a transit object and, when given, its class.
+ * Nothing is modified; every problem is reported as a diagnostic.
+ */
+export function validateTransitPass(
+  passObject: TransitObject,
+  passClass?: TransitClass,
+): ValidationResult {
+  const context = new ValidationContext();
+
+  context.objectIdentity(passObject);
+  context.oneOf('object.tripType', passObject.tripType, TRIP_TYPES);
+  context.oneOf('object.passengerType', passObject.passengerType, PASSENGER_TYPES);
+  context.oneOf('object.concessionCategory', passObject.concessionCategory, CONCESSION_CATEGORIES);
+  context.oneOf('object.fareClass', passObject.fareClass, FARE_CLASSES);
+
+  if (passObject.ticketLeg && passObject.ticketLegs) {
+    context.error('object.ticketLegs', 'ticketLeg and ticketLegs must not both be set');
+  }
+  if (passObject.ticketLeg) {
+    context.ticketLeg('object.ticketLeg', passObject.ticketLeg);
+  }
+  (passObject.ticketLegs || []).forEach((leg, index) => {
+    context.ticketLeg(`object.ticketLegs[${index}]`, leg);
+  });
+
+  context.money('object.ticketCost.faceValue', passObject.ticketCost?.faceValue);
+  context.money('object.ticketCost.purchasePrice', passObject.ticketCost?.purchasePrice);
+  context.objectModules(passObject);
+
+  if (passClass) {
+    context.classCommon(passClass, passObject);
+    context.required('class.transitType', passClass.transitType);
+    context.oneOf('class.transitType', passClass.transitType, TRANSIT_TYPES);
+    context.localized('class.transitOperatorName', passClass.transitOperatorName);
+    context.required('class.logo', passClass.logo);
+    context.image('class.logo', passClass.logo);
+  }
+
+  return context.result();
+}